@@ -11,6 +11,9 @@ import {
     CSSProperties,
     Fragment,
     useMemo,
+    isValidElement,
+    cloneElement,
+    ReactNode,
 } from "react"
 import { flushSync } from "react-dom"
 import { addPropertyControls, ControlType, RenderTarget } from "framer"
@@ -28,6 +31,44 @@ import {
 
 type ReasoningEffort = "low" | "medium" | "high" | "none"
 
+type ResponseFormat = "text" | "json"
+
+type StructuredDisplay = "auto" | "cards" | "list" | "table"
+
+type DailyLimitMode = "messages" | "tokens"
+
+// What the built-in mock backend does with every chat request
+type MockScenario = "echo" | "script" | "rateLimit" | "error" | "blocked"
+
+type SafetyThreshold =
+    | "default"
+    | "BLOCK_NONE"
+    | "BLOCK_ONLY_HIGH"
+    | "BLOCK_MEDIUM_AND_ABOVE"
+    | "BLOCK_LOW_AND_ABOVE"
+    | "OFF"
+
+// "Advanced" property controls. 0 means "model default" for topK,
+// maxOutputTokens, penalties and seed.
+interface GenerationSettings {
+    temperature?: number
+    topP?: number
+    topK?: number
+    maxOutputTokens?: number
+    stopSequences?: string[]
+    presencePenalty?: number
+    frequencyPenalty?: number
+    seed?: number
+}
+
+// One threshold per Gemini harm category; "default" leaves it to the API
+interface SafetySettingsConfig {
+    harassment?: SafetyThreshold
+    hateSpeech?: SafetyThreshold
+    sexuallyExplicit?: SafetyThreshold
+    dangerousContent?: SafetyThreshold
+}
+
 interface FramerFontInfo {
     fontFamily: string
     fontSize: number
@@ -44,9 +85,83 @@ interface ResponsiveImageType {
     alt?: string
 }
 
+interface ProxyHeader {
+    name: string
+    value: string
+}
+
+// Entry in the end-user model picker
+interface ModelOption {
+    label: string
+    model: string
+}
+
+// How requests leave the component: the network, or the built-in mock
+interface GeminiTransport {
+    fetch: (url: string, init?: RequestInit) => Promise<Response>
+    createWebSocket: (url: string) => WebSocket
+}
+
+interface MockTransportOptions {
+    scenario: MockScenario
+    script: string[] // replies for the "script" scenario, in turn order
+    seed: number
+}
+
+// Where REST, upload and Live calls are sent. In proxy mode the API key stays
+// on the server and the browser only ever talks to `proxyBaseUrl`.
+interface GeminiEndpoint {
+    apiKey?: string
+    proxyBaseUrl?: string
+    proxyHeaders?: ProxyHeader[]
+}
+
 interface ChatOverlayProps {
     geminiApiKey: string
+    proxyBaseUrl?: string
+    proxyHeaders?: ProxyHeader[]
+    provider?: ChatProviderId
+    openAiBaseUrl?: string
+    openAiApiKey?: string
+    mockMode?: boolean
+    mockScenario?: MockScenario
+    mockScript?: string
+    mockSeed?: number
+    historySummaryThreshold?: number
+    historyTokenBudget?: number
+    summaryModel?: string
+    persistConversation?: boolean
+    retentionDays?: number
+    enableThreads?: boolean
+    enableExport?: boolean
+    enableShareLinks?: boolean
+    archiveOnNewChat?: boolean
+    enableSearch?: boolean
     model: string
+    fallbackModels?: string[]
+    enableModelPicker?: boolean
+    modelOptions?: ModelOption[]
+    maxRetries?: number
+    connectTimeout?: number
+    streamIdleTimeout?: number
+    totalTimeout?: number
+    tools?: ChatTool[]
+    toolDeclarations?: string
+    toolHandlers?: Record<string, ToolHandler>
+    maxToolSteps?: number
+    enableGoogleSearch?: boolean
+    responseFormat?: ResponseFormat
+    responseSchema?: string
+    structuredDisplay?: StructuredDisplay
+    showThinking?: boolean
+    dailyLimitMode?: DailyLimitMode
+    dailyTokenLimit?: number
+    showUsageReadout?: boolean
+    enableContextCaching?: boolean
+    pinnedKnowledge?: string
+    cacheTtlSeconds?: number
+    safetySettings?: SafetySettingsConfig
+    generationSettings?: GenerationSettings
     reasoningEffort: ReasoningEffort
     systemPrompt: string
     welcomeMessage?: string
@@ -102,9 +217,185 @@ interface Message {
                         mimeType?: string
                         name?: string
                         thumbnailDataUrl?: string
+                        uploadedAt?: number // ms since epoch; Gemini deletes uploads after 48h
                     }
                 }
           >
+    toolCalls?: ToolCallRecord[] // assistant turns that called tools
+    grounding?: GroundingInfo // Google Search results the answer cites
+    structured?: boolean // content is JSON from structured-output mode
+    thoughts?: string // thought summaries streamed before the answer
+    usage?: TokenUsage // tokens billed for this reply, all rounds included
+    blocked?: boolean // user turn whose reply was blocked; not sent again
+    model?: string // model that produced this answer, after any fallback
+    variants?: AssistantVariant[] // every generated answer, oldest first
+    activeVariant?: number // index into `variants` shown and sent as history
+    branches?: MessageBranch[] // user turn: every edit and what followed it
+    activeBranch?: number // index into `branches` of the path in `messages`
+}
+
+// One edit of a user turn and the messages that followed it. The active
+// branch's `messages` is only a snapshot: the live tail is whatever follows
+// the turn in the transcript, and it is stored back when switching away.
+interface MessageBranch {
+    content: Message["content"]
+    messages: Message[]
+}
+
+// The reply fields of an assistant message. The active variant is mirrored
+// onto the message itself, so history and rendering read it directly.
+interface AssistantVariant {
+    content: Message["content"]
+    toolCalls?: ToolCallRecord[]
+    grounding?: GroundingInfo
+    structured?: boolean
+    thoughts?: string
+    usage?: TokenUsage
+    model?: string
+}
+
+// Output excludes thinking for both providers, so the three add up
+interface TokenUsage {
+    prompt: number
+    output: number
+    thinking: number
+}
+
+// Persisted per calendar day under DAILY_USAGE_STORAGE_KEY
+interface DailyUsage {
+    date: string // YYYY-MM-DD
+    count: number // messages sent
+    tokens: TokenUsage
+}
+
+interface GroundingSource {
+    uri: string
+    title: string
+}
+
+// Normalized `groundingMetadata`. Citations point into `sources` and are
+// located by their text, so they survive whitespace trimming of the answer.
+interface GroundingInfo {
+    sources: GroundingSource[]
+    citations: { text: string; sourceIndices: number[] }[]
+    searchEntryPointHtml?: string // Google Search suggestions chip
+}
+
+// Function calling. Declarations follow Gemini's FunctionDeclaration shape
+// (OpenAPI-style JSON schema in `parameters`).
+interface ToolDeclaration {
+    name: string
+    description?: string
+    parameters?: any
+}
+
+type ToolHandler = (args: Record<string, any>) => any | Promise<any>
+
+interface ChatTool extends ToolDeclaration {
+    handler?: ToolHandler
+}
+
+// A call the model asked for, before it has been run
+interface ToolCallRequest {
+    id?: string
+    name: string
+    args: Record<string, any>
+    thoughtSignature?: string // Gemini 3 requires it to be echoed back
+}
+
+interface ToolCallRecord extends ToolCallRequest {
+    response?: any
+    step: number // calls made in the same model turn share a step
+}
+
+type ChatProviderId = "gemini" | "openai"
+
+type ResolvedFile =
+    | { mimeType: string; data: string }
+    | { mimeType: string; uri: string }
+
+// Provider-neutral description of one model call
+interface ChatRequestInput {
+    model: string
+    history: Message[] // user/assistant turns, oldest first
+    systemInstruction?: string
+    historySummary?: string // rolling summary of turns no longer in `history`
+    reasoningEffort: ReasoningEffort
+    includeThoughts?: boolean
+    temperature?: number
+    topP?: number
+    topK?: number
+    maxOutputTokens?: number
+    stopSequences?: string[]
+    presencePenalty?: number
+    frequencyPenalty?: number
+    seed?: number
+    tools?: ToolDeclaration[]
+    googleSearch?: boolean
+    jsonResponse?: { schema?: any } // structured output, optionally schema-bound
+    cachedContent?: string // Gemini cache holding the system instruction and tools
+    safetySettings?: { category: string; threshold: string }[]
+    resolveLocalFile?: (uri: string) => Promise<ResolvedFile | null>
+}
+
+interface ProviderRequest {
+    url: string
+    headers: Record<string, string>
+    body: any
+}
+
+type ChatStreamEvent =
+    | { type: "text"; text: string; candidateIndex: number }
+    | { type: "thought"; text: string; candidateIndex: number } // reasoning summary
+    | { type: "part"; part: any; candidateIndex: number } // non-text part
+    | { type: "toolCall"; call: ToolCallRequest; candidateIndex: number }
+    | { type: "grounding"; grounding: GroundingInfo; candidateIndex: number }
+    | { type: "usage"; usage: TokenUsage } // cumulative for the request
+    | {
+          type: "blocked"
+          stage: "prompt" | "response"
+          reason: string // blockReason or finishReason
+          category?: string // harm category that triggered it, if known
+          message: string
+      }
+
+// A Gemini `cachedContents` entry owned by this component
+interface ContextCacheEntry {
+    name: string // "cachedContents/..."
+    expiresAt: number // ms timestamp
+    usedSinceRefresh: boolean // only active conversations keep their cache alive
+    timer?: any
+    refresh?: AbortController // the refresh timer's PATCH while it runs
+}
+
+// Shown while a request is being retried or moved to a fallback model
+interface RetryState {
+    model: string
+    attempt: number
+    fallback: boolean
+}
+
+interface ChatStreamParser {
+    push(chunk: string): ChatStreamEvent[]
+    flush(): ChatStreamEvent[] // call once the body has ended
+}
+
+interface ChatProvider {
+    id: ChatProviderId
+    isConfigured: boolean
+    missingConfigMessage: string
+    buildRequest(
+        input: ChatRequestInput,
+        options: { stream: boolean }
+    ): Promise<ProviderRequest>
+    createStreamParser(): ChatStreamParser
+    parseResponseText(data: any): string
+    parseUsage(data: any): TokenUsage | null // non-streamed responses
+    // Exact token count of a history, for providers whose API offers one
+    buildCountTokensRequest?(
+        input: Pick<ChatRequestInput, "model" | "history" | "resolveLocalFile">
+    ): Promise<ProviderRequest>
+    parseTokenCount?(data: any): number | null
 }
 
 // -----------------------------------------------------------------------------
@@ -125,17 +416,231 @@ const DEFAULT_FONT_INFO: FramerFontInfo = {
     textAlign: "left",
 }
 
+const GEMINI_API_ORIGIN = "https://generativelanguage.googleapis.com"
+const GEMINI_LIVE_PATH =
+    "/ws/google.ai.generativelanguage.v1alpha.GenerativeService.BidiGenerateContent"
+
 // User abuse guardrails
 // These are designed to prevent abuse and ensure the API is used responsibly
 const SUGGESTION_MODEL_ID = "gemini-3-flash-preview"
 const INLINE_MAX_BYTES = 20 * 1024 * 1024 // 20MB
 const MAX_INPUT_LENGTH = 1000 // Limit input characters
 const MESSAGE_RATE_LIMIT_MS = 1000 // 1 second between messages
-const API_TIMEOUT_MS = 30000 // 30 seconds timeout
-const MAX_HISTORY_MESSAGES = 20 // Limit history context
+const DEFAULT_CONNECT_TIMEOUT_S = 30 // Wait for response headers
+const DEFAULT_STREAM_IDLE_TIMEOUT_S = 20 // Max gap between streamed chunks
+const DEFAULT_TOTAL_TIMEOUT_S = 120 // Whole request, including retries
+const MAX_HISTORY_MESSAGES = 20 // Default for historySummaryThreshold
+const DEFAULT_HISTORY_TOKEN_BUDGET = 32000 // Tokens of history sent per request
+const DEFAULT_MAX_TOOL_STEPS = 5 // Model turns that may call tools per reply
 const DAILY_MESSAGE_LIMIT = 100 // Limit messages per day
+const DEFAULT_DAILY_TOKEN_LIMIT = 200000 // Used when dailyLimitMode is "tokens"
 const MAX_UPLOAD_SIZE_MB = 10 // Max upload size in MB
 
+const DAILY_USAGE_STORAGE_KEY = "gemini-daily-usage"
+const SESSION_USAGE_STORAGE_KEY = "gemini-session-usage"
+const SELECTED_MODEL_STORAGE_KEY = "gemini-selected-model"
+const EMPTY_TOKEN_USAGE: TokenUsage = { prompt: 0, output: 0, thinking: 0 }
+
+// Local token estimates, used to pick what to trim and when countTokens is
+// unavailable. Gemini bills an image at up to 1,290 tokens; audio and
+// documents come to roughly one token per 128 bytes.
+const ESTIMATED_CHARS_PER_TOKEN = 4
+const ESTIMATED_IMAGE_TOKENS = 1290
+const ESTIMATED_BYTES_PER_MEDIA_TOKEN = 128
+const ESTIMATED_FILE_TOKENS = 2580 // uploaded file of unknown size
+
+// Rolling summary of turns that no longer fit in the history window
+const DEFAULT_SUMMARY_MODEL_ID = "gemini-2.5-flash-lite"
+const HISTORY_SUMMARY_MAX_TOKENS = 400
+const HISTORY_SUMMARY_INSTRUCTION =
+    "You maintain a running summary of a chat between a user and an assistant. Keep what the assistant will need later: the user's name and details, preferences, constraints, decisions and open questions. Write plain sentences, at most 200 words."
+
+// Mock transport: pacing, and the canned suggestions and Live exchange
+const MOCK_API_KEY = "mock"
+const MOCK_CHUNK_DELAY_MS = 30
+const MOCK_SUGGESTIONS = ["Tell me more.", "Show an example.", "Thanks!"]
+const MOCK_SUMMARY = "Mock summary of the earlier conversation."
+const MOCK_LIVE_USER_TEXT = "Hi there!"
+const MOCK_LIVE_REPLY =
+    "This is a mock live session. Nothing you say is sent anywhere."
+
+// Conversation persistence (IndexedDB)
+const CONVERSATION_DB_NAME = "gemini-chat"
+const CONVERSATION_DB_VERSION = 1 // object stores and indexes
+const CONVERSATION_SCHEMA_VERSION = 2 // shape of a stored conversation record
+const CONVERSATION_STORE = "conversations"
+const ATTACHMENT_STORE = "attachments"
+const DEFAULT_CONVERSATION_ID = "default" // also the first thread
+const ACTIVE_THREAD_STORAGE_KEY = "gemini-active-thread"
+const THREAD_PREVIEW_LENGTH = 60
+const THREAD_SIDEBAR_WIDTH = 220
+const DEFAULT_RETENTION_DAYS = 30
+const PERSIST_DEBOUNCE_MS = 500
+const UPLOADED_FILE_LIFETIME_MS = 48 * 60 * 60 * 1000 // Gemini Files API
+
+// Transcript export & import
+const CONVERSATION_EXPORT_FORMAT = "gemini-chat-transcript"
+const CONVERSATION_EXPORT_VERSION = 1
+// Download formats in the ⋯ menu, in menu order
+const EXPORT_MENU_ITEMS = [
+    ["markdown", "Download as Markdown"],
+    ["html", "Download printable page"],
+    ["json", "Download JSON"],
+    ["json-embedded", "Download JSON with attachments"],
+] as const
+type ExportFormat = (typeof EXPORT_MENU_ITEMS)[number][0]
+
+// Share links (read-only transcript in the URL fragment)
+const SHARE_HASH_PREFIX = "#chat="
+const SHARE_LINK_VERSION = 1
+const MAX_SHARE_URL_LENGTH = 16000 // chat apps and browsers cut longer links
+const SHARE_NOTICE_MS = 2500
+
+// Context caching
+const DEFAULT_CACHE_TTL_S = 3600
+const CACHE_REFRESH_MARGIN_MS = 60 * 1000 // Extend caches this long before expiry
+const CACHE_UNSUPPORTED_STATUS_CODES = [400, 403, 404] // model, size or permission
+
+// Retry & fallback policy for chat requests
+const RETRYABLE_STATUS_CODES = [429, 500, 503]
+const FALLBACK_STATUS_CODES = [404, 429, 500, 503] // model missing or overloaded
+const RETRY_BASE_DELAY_MS = 1000
+const RETRY_MAX_DELAY_MS = 20000
+
+const TIMEOUT_ERROR_MESSAGES = {
+    connect: "The server took too long to respond. Please try again.",
+    idle: "The response stalled. Please try again.",
+    total: "The response took too long. Please try again.",
+}
+
+const SAFETY_CATEGORIES: Record<keyof SafetySettingsConfig, string> = {
+    harassment: "HARM_CATEGORY_HARASSMENT",
+    hateSpeech: "HARM_CATEGORY_HATE_SPEECH",
+    sexuallyExplicit: "HARM_CATEGORY_SEXUALLY_EXPLICIT",
+    dangerousContent: "HARM_CATEGORY_DANGEROUS_CONTENT",
+}
+
+const SAFETY_THRESHOLD_OPTIONS: SafetyThreshold[] = [
+    "default",
+    "BLOCK_LOW_AND_ABOVE",
+    "BLOCK_MEDIUM_AND_ABOVE",
+    "BLOCK_ONLY_HIGH",
+    "BLOCK_NONE",
+    "OFF",
+]
+const SAFETY_THRESHOLD_TITLES = [
+    "Default",
+    "Block Low+",
+    "Block Medium+",
+    "Block High",
+    "Block None",
+    "Off",
+]
+
+// Finish/block reasons explained as a content-filter block; anything else
+// that is not RECITATION gets the generic explanation
+const SAFETY_BLOCK_REASONS = [
+    "SAFETY",
+    "PROHIBITED_CONTENT",
+    "BLOCKLIST",
+    "SPII",
+    "IMAGE_SAFETY",
+    "content_filter",
+]
+
+// Blocked-response explanations by language (navigator.language prefix).
+// {category} and {reason} are replaced with " (…)" or removed.
+const BLOCKED_EXPLANATIONS: Record<
+    string,
+    {
+        prompt: string
+        response: string
+        recitation: string
+        other: string
+        rephrase: string
+        categories: Record<string, string>
+    }
+> = {
+    en: {
+        prompt: "Your message was blocked by the content filter{category}. Try rephrasing it.",
+        response: "The answer was blocked by the content filter{category}. Try rephrasing your message.",
+        recitation: "The answer was stopped because it closely matched existing published content. Try asking in a different way.",
+        other: "The answer couldn't be completed{reason}. Try rephrasing your message.",
+        rephrase: "Rephrase",
+        categories: {
+            HARM_CATEGORY_HARASSMENT: "harassment",
+            HARM_CATEGORY_HATE_SPEECH: "hate speech",
+            HARM_CATEGORY_SEXUALLY_EXPLICIT: "sexually explicit content",
+            HARM_CATEGORY_DANGEROUS_CONTENT: "dangerous content",
+        },
+    },
+    es: {
+        prompt: "Tu mensaje fue bloqueado por el filtro de contenido{category}. Intenta reformularlo.",
+        response: "La respuesta fue bloqueada por el filtro de contenido{category}. Intenta reformular tu mensaje.",
+        recitation: "La respuesta se detuvo porque se parecía demasiado a contenido ya publicado. Intenta preguntarlo de otra forma.",
+        other: "No se pudo completar la respuesta{reason}. Intenta reformular tu mensaje.",
+        rephrase: "Reformular",
+        categories: {
+            HARM_CATEGORY_HARASSMENT: "acoso",
+            HARM_CATEGORY_HATE_SPEECH: "discurso de odio",
+            HARM_CATEGORY_SEXUALLY_EXPLICIT: "contenido sexual explícito",
+            HARM_CATEGORY_DANGEROUS_CONTENT: "contenido peligroso",
+        },
+    },
+    fr: {
+        prompt: "Votre message a été bloqué par le filtre de contenu{category}. Essayez de le reformuler.",
+        response: "La réponse a été bloquée par le filtre de contenu{category}. Essayez de reformuler votre message.",
+        recitation: "La réponse a été interrompue car elle reprenait de trop près un contenu déjà publié. Essayez de poser la question autrement.",
+        other: "La réponse n'a pas pu être terminée{reason}. Essayez de reformuler votre message.",
+        rephrase: "Reformuler",
+        categories: {
+            HARM_CATEGORY_HARASSMENT: "harcèlement",
+            HARM_CATEGORY_HATE_SPEECH: "discours haineux",
+            HARM_CATEGORY_SEXUALLY_EXPLICIT: "contenu sexuellement explicite",
+            HARM_CATEGORY_DANGEROUS_CONTENT: "contenu dangereux",
+        },
+    },
+    de: {
+        prompt: "Deine Nachricht wurde vom Inhaltsfilter blockiert{category}. Versuche, sie umzuformulieren.",
+        response: "Die Antwort wurde vom Inhaltsfilter blockiert{category}. Versuche, deine Nachricht umzuformulieren.",
+        recitation: "Die Antwort wurde abgebrochen, weil sie bereits veröffentlichten Inhalten zu stark ähnelte. Versuche, anders zu fragen.",
+        other: "Die Antwort konnte nicht abgeschlossen werden{reason}. Versuche, deine Nachricht umzuformulieren.",
+        rephrase: "Umformulieren",
+        categories: {
+            HARM_CATEGORY_HARASSMENT: "Belästigung",
+            HARM_CATEGORY_HATE_SPEECH: "Hassrede",
+            HARM_CATEGORY_SEXUALLY_EXPLICIT: "sexuell explizite Inhalte",
+            HARM_CATEGORY_DANGEROUS_CONTENT: "gefährliche Inhalte",
+        },
+    },
+    pt: {
+        prompt: "Sua mensagem foi bloqueada pelo filtro de conteúdo{category}. Tente reformulá-la.",
+        response: "A resposta foi bloqueada pelo filtro de conteúdo{category}. Tente reformular sua mensagem.",
+        recitation: "A resposta foi interrompida porque era muito parecida com um conteúdo já publicado. Tente perguntar de outra forma.",
+        other: "Não foi possível concluir a resposta{reason}. Tente reformular sua mensagem.",
+        rephrase: "Reformular",
+        categories: {
+            HARM_CATEGORY_HARASSMENT: "assédio",
+            HARM_CATEGORY_HATE_SPEECH: "discurso de ódio",
+            HARM_CATEGORY_SEXUALLY_EXPLICIT: "conteúdo sexualmente explícito",
+            HARM_CATEGORY_DANGEROUS_CONTENT: "conteúdo perigoso",
+        },
+    },
+    ja: {
+        prompt: "メッセージがコンテンツフィルタによりブロックされました{category}。言い換えてお試しください。",
+        response: "回答がコンテンツフィルタによりブロックされました{category}。メッセージを言い換えてお試しください。",
+        recitation: "回答が既存の公開コンテンツと酷似していたため中断されました。別の聞き方をお試しください。",
+        other: "回答を完了できませんでした{reason}。メッセージを言い換えてお試しください。",
+        rephrase: "言い換える",
+        categories: {
+            HARM_CATEGORY_HARASSMENT: "嫌がらせ",
+            HARM_CATEGORY_HATE_SPEECH: "ヘイトスピーチ",
+            HARM_CATEGORY_SEXUALLY_EXPLICIT: "性的に露骨なコンテンツ",
+            HARM_CATEGORY_DANGEROUS_CONTENT: "危険なコンテンツ",
+        },
+    },
+}
+
 // Gemini Native Audio Output Rate
 const MODEL_OUTPUT_SAMPLE_RATE = 24000
 // We will downsample input to this rate for robustness
@@ -336,6 +841,268 @@ function ensureProtocol(url: string): string {
     return url
 }
 
+const SAFE_LINK_PROTOCOLS = ["http:", "https:", "mailto:", "tel:"]
+
+/**
+ * An href for a link from model output, an import or a share link, or
+ * undefined when it isn't a web, email or phone link. Parsing with URL
+ * catches tricks like `JavaScript:` or `java\tscript:`.
+ */
+function safeLinkHref(url: unknown): string | undefined {
+    if (typeof url !== "string") return undefined
+    try {
+        const href = ensureProtocol(url.trim())
+        return SAFE_LINK_PROTOCOLS.includes(new URL(href).protocol)
+            ? href
+            : undefined
+    } catch (e) {
+        return undefined
+    }
+}
+
+function isProxyMode(endpoint: GeminiEndpoint): boolean {
+    return !!endpoint.proxyBaseUrl && endpoint.proxyBaseUrl.trim() !== ""
+}
+
+function hasGeminiAccess(endpoint: GeminiEndpoint): boolean {
+    return isProxyMode(endpoint) || !!endpoint.apiKey
+}
+
+/**
+ * Builds a REST URL for the Gemini API. Direct mode appends the API key as a
+ * query parameter; proxy mode rewrites the origin and never includes the key.
+ */
+function buildGeminiUrl(
+    endpoint: GeminiEndpoint,
+    path: string,
+    params: Record<string, string> = {}
+): string {
+    const query = new URLSearchParams(params)
+    let base = GEMINI_API_ORIGIN
+    if (isProxyMode(endpoint)) {
+        base = endpoint.proxyBaseUrl.trim().replace(/\/+$/, "")
+    } else if (endpoint.apiKey) {
+        query.set("key", endpoint.apiKey)
+    }
+    const queryString = query.toString()
+    return `${base}${path}${queryString ? `?${queryString}` : ""}`
+}
+
+/**
+ * Builds the Live API WebSocket URL. Browsers cannot attach custom headers to
+ * a WebSocket handshake, so in proxy mode the proxy headers are sent as query
+ * parameters instead.
+ */
+function buildGeminiWebSocketUrl(endpoint: GeminiEndpoint, path: string): string {
+    if (!isProxyMode(endpoint)) {
+        return buildGeminiUrl(endpoint, path).replace(/^http/, "ws")
+    }
+    const params: Record<string, string> = {}
+    for (const header of endpoint.proxyHeaders || []) {
+        if (header?.name?.trim()) params[header.name.trim()] = header.value || ""
+    }
+    return buildGeminiUrl(endpoint, path, params).replace(/^http/, "ws")
+}
+
+function buildGeminiHeaders(
+    endpoint: GeminiEndpoint,
+    headers: Record<string, string> = {}
+): Record<string, string> {
+    if (!isProxyMode(endpoint)) return headers
+    const merged = { ...headers }
+    for (const header of endpoint.proxyHeaders || []) {
+        if (header?.name?.trim()) merged[header.name.trim()] = header.value || ""
+    }
+    return merged
+}
+
+/** Maps the safety property controls to Gemini `safetySettings`, skipping "default". */
+function toGeminiSafetySettings(
+    config: SafetySettingsConfig = {}
+): { category: string; threshold: string }[] {
+    return (Object.keys(SAFETY_CATEGORIES) as (keyof SafetySettingsConfig)[])
+        .filter((key) => config[key] && config[key] !== "default")
+        .map((key) => ({
+            category: SAFETY_CATEGORIES[key],
+            threshold: config[key],
+        }))
+}
+
+/**
+ * Turns the "Advanced" property controls into request fields, dropping the
+ * 0 "model default" placeholders and blank stop sequences.
+ */
+function toGenerationParams(
+    settings?: GenerationSettings
+): Partial<ChatRequestInput> {
+    if (!settings) return {}
+    const params: Partial<ChatRequestInput> = {}
+    if (typeof settings.temperature === "number") {
+        params.temperature = settings.temperature
+    }
+    if (typeof settings.topP === "number") params.topP = settings.topP
+    if (settings.topK > 0) params.topK = Math.round(settings.topK)
+    if (settings.maxOutputTokens > 0) {
+        params.maxOutputTokens = Math.round(settings.maxOutputTokens)
+    }
+    const stopSequences = (settings.stopSequences || []).filter(
+        (sequence) => sequence && sequence.length > 0
+    )
+    if (stopSequences.length > 0) params.stopSequences = stopSequences
+    if (settings.presencePenalty) params.presencePenalty = settings.presencePenalty
+    if (settings.frequencyPenalty) {
+        params.frequencyPenalty = settings.frequencyPenalty
+    }
+    if (settings.seed) params.seed = Math.round(settings.seed)
+    return params
+}
+
+/** Blocked-response strings for the visitor's browser language, English by default. */
+function getBlockedStrings() {
+    const language =
+        typeof navigator !== "undefined" && navigator.language
+            ? navigator.language.toLowerCase().split("-")[0]
+            : "en"
+    return BLOCKED_EXPLANATIONS[language] || BLOCKED_EXPLANATIONS.en
+}
+
+/** A specific, localized explanation for a blocked prompt or answer. */
+function describeBlockedResponse(
+    event: Extract<ChatStreamEvent, { type: "blocked" }>
+): string {
+    const strings = getBlockedStrings()
+    const categoryLabel = event.category && strings.categories[event.category]
+    const isSafety = SAFETY_BLOCK_REASONS.includes(event.reason)
+    let template = strings.other
+    if (event.reason === "RECITATION") template = strings.recitation
+    else if (event.stage === "prompt") template = strings.prompt
+    else if (isSafety) template = strings.response
+    return template
+        .replace("{category}", categoryLabel ? ` (${categoryLabel})` : "")
+        .replace("{reason}", event.reason ? ` (${event.reason})` : "")
+}
+
+/** `instruction` followed by the rolling summary of earlier turns, if any. */
+function withHistorySummary(
+    instruction: string | undefined,
+    summary: string | undefined
+): string {
+    return [
+        instruction?.trim(),
+        summary?.trim()
+            ? `Summary of the earlier conversation:\n\n${summary.trim()}`
+            : "",
+    ]
+        .filter(Boolean)
+        .join("\n\n")
+}
+
+/** The typed text of a message, without attachments. */
+function getMessageText(content: Message["content"]): string {
+    if (typeof content === "string") return content
+    if (!Array.isArray(content)) return ""
+    return content
+        .filter((part) => part.type === "text")
+        .map((part: any) => part.text)
+        .join("\n")
+}
+
+/** The visitor's pick if it is on the allow-list, else `model` or the first option. */
+function resolvePickedModel(
+    options: ModelOption[],
+    picked: string,
+    model: string
+): string {
+    if (options.length === 0) return model
+    const allowed = options.map((option) => option.model.trim())
+    if (allowed.includes(picked)) return picked
+    return allowed.includes(model.trim()) ? model : allowed[0]
+}
+
+function toAssistantVariant(message: Message): AssistantVariant {
+    return {
+        content: message.content,
+        toolCalls: message.toolCalls,
+        grounding: message.grounding,
+        structured: message.structured,
+        thoughts: message.thoughts,
+        usage: message.usage,
+        model: message.model,
+    }
+}
+
+/** Adds `reply` as the newest variant of `message` and makes it active. */
+function addAssistantVariant(message: Message, reply: Message): Message {
+    const variants = [
+        ...(message.variants || [toAssistantVariant(message)]),
+        toAssistantVariant(reply),
+    ]
+    return {
+        ...message,
+        ...toAssistantVariant(reply),
+        variants,
+        activeVariant: variants.length - 1,
+    }
+}
+
+function selectAssistantVariant(message: Message, index: number): Message {
+    const variant = message.variants?.[index]
+    return variant ? { ...message, ...variant, activeVariant: index } : message
+}
+
+/** Stores the live tail of the user turn at `index` in its active branch. */
+function saveActiveBranch(messages: Message[], index: number): MessageBranch[] {
+    const turn = messages[index]
+    const current = { content: turn.content, messages: messages.slice(index + 1) }
+    if (!turn.branches?.length) return [current]
+    const active = turn.activeBranch ?? turn.branches.length - 1
+    return turn.branches.map((branch, i) => (i === active ? current : branch))
+}
+
+/**
+ * Replaces the user turn at `index` with `content` as a new branch, keeping
+ * the old wording and everything after it reachable. Returns the path ending
+ * in the edited turn, ready to be answered.
+ */
+function branchConversation(
+    messages: Message[],
+    index: number,
+    content: Message["content"]
+): Message[] {
+    const branches = [...saveActiveBranch(messages, index), { content, messages: [] }]
+    return [
+        ...messages.slice(0, index),
+        {
+            ...messages[index],
+            content,
+            blocked: undefined,
+            branches,
+            activeBranch: branches.length - 1,
+        },
+    ]
+}
+
+/** Switches the user turn at `index` to another branch and its follow-ups. */
+function selectBranch(
+    messages: Message[],
+    index: number,
+    branchIndex: number
+): Message[] {
+    const branches = saveActiveBranch(messages, index)
+    const branch = branches[branchIndex]
+    if (!branch || !messages[index].branches) return messages
+    return [
+        ...messages.slice(0, index),
+        {
+            ...messages[index],
+            content: branch.content,
+            branches,
+            activeBranch: branchIndex,
+        },
+        ...branch.messages,
+    ]
+}
+
 function stripMarkdownForTTS(markdownText: string): string {
     if (!markdownText) return ""
     return markdownText
@@ -435,11 +1202,16 @@ const applyInlineFormatting = (
                     {italicInner || emInner || iInner}
                 </em>
             )
+        } else if (linkText !== undefined && !safeLinkHref(linkUrl)) {
+            // javascript: and other schemes stay plain text
+            parts.push(linkText)
+        } else if (htmlLinkText !== undefined && !safeLinkHref(htmlLinkUrl)) {
+            parts.push(htmlLinkText)
         } else if (linkText !== undefined && linkUrl !== undefined) {
             parts.push(
                 <a
                     key={`${keyPrefix}-${match.index}-a`}
-                    href={ensureProtocol(linkUrl)}
+                    href={safeLinkHref(linkUrl)}
                     target="_blank"
                     rel="noopener noreferrer"
                     style={linkStyle}
@@ -451,7 +1223,7 @@ const applyInlineFormatting = (
             parts.push(
                 <a
                     key={`${keyPrefix}-${match.index}-html-a`}
-                    href={ensureProtocol(htmlLinkUrl)}
+                    href={safeLinkHref(htmlLinkUrl)}
                     target="_blank"
                     rel="noopener noreferrer"
                     style={linkStyle}
@@ -485,7 +1257,7 @@ const applyInlineFormatting = (
             parts.push(
                 <a
                     key={`${keyPrefix}-${match.index}-url`}
-                    href={ensureProtocol(plainUrl)}
+                    href={safeLinkHref(plainUrl)}
                     target="_blank"
                     rel="noopener noreferrer"
                     style={linkStyle}
@@ -570,7 +1342,8 @@ const renderTable = (
 const renderSimpleMarkdown = (
     markdownText: string,
     baseTextStyle: CSSProperties,
-    linkStyle: CSSProperties
+    linkStyle: CSSProperties,
+    highlightQuery?: string
 ): JSX.Element => {
     if (!markdownText) return <Fragment />
 
@@ -699,123 +1472,3244 @@ const renderSimpleMarkdown = (
         })
     })
 
-    return <Fragment>{renderedSegments}</Fragment>
+    const rendered = <Fragment>{renderedSegments}</Fragment>
+    return highlightQuery
+        ? (highlightMatches(rendered, highlightQuery, "hl") as JSX.Element)
+        : rendered
 }
 
 // -----------------------------------------------------------------------------
-// Main ChatOverlay Component
+// Transcript Search
 // -----------------------------------------------------------------------------
-export default function ChatOverlay(props: ChatOverlayProps) {
-    const {
-        geminiApiKey,
-        model,
-        reasoningEffort,
-        systemPrompt,
-        welcomeMessage = "Hi, how can I help?",
-        placeholder,
-        inputBarBackground,
-        expandedInputAreaBackground,
-        chatAreaBackground,
-        userMessageBackgroundColor,
-        shadow,
-        iconColor,
-        sendIconColor,
-        sendBgColor,
-        textColor,
-        placeholderTextColor,
-        linkColor = "#007AFF",
-        sendIconOverrideUrl,
-        loadingIconOverrideUrl,
-        textFont = DEFAULT_FONT_INFO,
-        style,
-        rotateSuggestions = true,
-        defaultSuggestions = [],
-        suggestionRotateInterval = 3,
-        enableAiSuggestions = true,
-        universalBorderRadius = 24,
-        enableScrollReveal = true,
-        enableGeminiLive = true,
-        interruptionThreshold = 0.01,
-        allowImages = true,
-        allowVideos = false,
-        allowDocuments = false,
-    } = props
+// Matches are highlighted on the rendered tree rather than the markdown
+// source, so links, code spans and tables keep their markup and only their
+// text is split around <mark> elements.
 
-    const baseFontSize =
-        typeof textFont.fontSize === "number"
-            ? textFont.fontSize
-            : parseFloat(textFont.fontSize) || 16
-    const tableFontSize = Math.max(10, baseFontSize - 1) + "px"
+const SEARCH_MATCH_CLASS = "chat-search-match"
 
-    const markdownStyles = `
-        .chat-markdown-table {
-            width: 100%;
-            border-collapse: collapse;
-            margin: 1em 0;
-            font-size: ${tableFontSize};
-        }
-        .chat-markdown-table th,
-        .chat-markdown-table td {
-            border-bottom: 1px solid ${props.iconColor ? props.iconColor.replace(")", ", 0.1)").replace("rgb", "rgba") : "rgba(0,0,0,0.1)"};
-            padding: 8px 12px;
-            text-align: left;
-            color: ${props.textColor};
-        }
-        .chat-markdown-table th {
-            font-weight: 600;
-        }
-        .chat-markdown-code-block {
-            background: rgba(0,0,0,0.03);
-            border: 1px solid rgba(0,0,0,0.06);
-            color: ${props.textColor};
-            padding: 12px;
-            border-radius: 8px;
-            overflow-x: auto;
-            font-family: 'Menlo', 'Monaco', 'Courier New', monospace;
-            font-size: 0.85em;
-            margin: 1em 0;
-            white-space: pre;
-        }
-        .chat-markdown-inline-code {
-            background: rgba(0,0,0,0.05);
-            padding: 2px 4px;
-            border-radius: 4px;
-            font-family: 'Menlo', 'Monaco', 'Courier New', monospace;
-            font-size: 0.9em;
-            color: ${props.linkColor};
-        }
-        .chat-markdown-blockquote {
-            border-left: 4px solid ${props.iconColor || "rgba(0,0,0,0.2)"};
-            padding-left: 16px;
-            margin: 1em 0;
-            opacity: 0.8;
-            font-style: italic;
-        }
-        .chat-markdown-hr {
-            border: 0;
-            height: 1px;
-            background: ${props.iconColor ? props.iconColor.replace(")", ", 0.1)").replace("rgb", "rgba") : "rgba(0,0,0,0.1)"};
-            margin: 1.5em 0;
+// Elements whose text is never highlighted
+const SEARCH_SKIPPED_ELEMENTS = new Set(["svg", "style", "script", "textarea"])
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+}
+
+/** Splits `text` around case-insensitive matches of `query`, wrapping each in a <mark>. */
+function highlightText(
+    text: string,
+    query: string,
+    keyPrefix: string
+): ReactNode {
+    const pattern = new RegExp(escapeRegExp(query), "gi")
+    const parts: ReactNode[] = []
+    let lastIndex = 0
+    let match
+    while ((match = pattern.exec(text)) !== null) {
+        if (match.index > lastIndex) {
+            parts.push(text.substring(lastIndex, match.index))
         }
-        .chat-overlay-collapsed-input::placeholder { color: transparent; opacity: 0; }
-        .chat-overlay-collapsed-input::-webkit-input-placeholder { color: transparent; opacity: 0; }
-        .chat-overlay-collapsed-input::-moz-placeholder { color: transparent; opacity: 0; }
-    `
+        parts.push(
+            <mark key={`${keyPrefix}-${match.index}`} className={SEARCH_MATCH_CLASS}>
+                {match[0]}
+            </mark>
+        )
+        lastIndex = match.index + match[0].length
+    }
+    if (!parts.length) return text
+    if (lastIndex < text.length) parts.push(text.substring(lastIndex))
+    return parts
+}
 
-    const placeholderStyleTagContent = `
-      .chat-overlay-collapsed-input::placeholder {
-          color: transparent;
-          opacity: 0;
-      }
-      .chat-overlay-collapsed-input::-webkit-input-placeholder {
-          color: transparent;
-          opacity: 0;
-      }
-      .chat-overlay-collapsed-input::-moz-placeholder {
-          color: transparent;
-          opacity: 0;
-      }
-      .chat-overlay-collapsed-input:-ms-input-placeholder {
+/** Highlights `query` in every text node of a rendered React tree. */
+function highlightMatches(
+    node: ReactNode,
+    query: string,
+    keyPrefix: string
+): ReactNode {
+    const trimmed = query.trim()
+    if (!trimmed || node === null || node === undefined) return node
+    if (typeof node === "string") return highlightText(node, trimmed, keyPrefix)
+    if (typeof node === "number") {
+        return highlightText(String(node), trimmed, keyPrefix)
+    }
+    if (Array.isArray(node)) {
+        return node.map((child, i) =>
+            highlightMatches(child, trimmed, `${keyPrefix}-${i}`)
+        )
+    }
+    if (
+        !isValidElement(node) ||
+        (typeof node.type !== "string" && node.type !== Fragment) ||
+        SEARCH_SKIPPED_ELEMENTS.has(node.type as string) ||
+        node.props.children === undefined
+    ) {
+        return node
+    }
+    const children = highlightMatches(
+        node.props.children,
+        trimmed,
+        `${keyPrefix}-c`
+    )
+    // Spread arrays back into separate children so React doesn't ask for keys
+    return Array.isArray(children)
+        ? cloneElement(node, undefined, ...children)
+        : cloneElement(node, undefined, children)
+}
+
+// -----------------------------------------------------------------------------
+// Structured Responses
+// -----------------------------------------------------------------------------
+// In structured-output mode the reply is JSON. It is rendered as cards, a
+// list or a table instead of going through the markdown renderer.
+
+interface StructuredRenderStyles {
+    baseTextStyle: CSSProperties
+    linkStyle: CSSProperties
+    borderColor: string
+    borderRadius: number
+}
+
+const STRUCTURED_TITLE_KEYS = ["title", "name", "question", "label", "heading"]
+const STRUCTURED_LINK_KEYS = ["url", "link", "href"]
+const STRUCTURED_DESCRIPTION_KEYS = ["description", "summary", "answer", "details"]
+const STRUCTURED_TABLE_MAX_COLUMNS = 5
+
+/** Parses the `responseSchema` property control; invalid JSON is ignored. */
+function parseResponseSchema(json: string): any | undefined {
+    if (!json || !json.trim()) return undefined
+    try {
+        return JSON.parse(json)
+    } catch (e) {
+        console.warn("Ignoring invalid responseSchema JSON", e)
+        return undefined
+    }
+}
+
+/** Parses a structured reply. Returns undefined when it is not valid JSON. */
+function parseStructuredContent(content: Message["content"]): any {
+    if (typeof content !== "string") return undefined
+    const text = content
+        .trim()
+        .replace(/^```(?:json)?\s*/i, "")
+        .replace(/```$/, "")
+        .trim()
+    try {
+        return JSON.parse(text)
+    } catch (e) {
+        return undefined
+    }
+}
+
+const isPlainObject = (value: any): value is Record<string, any> =>
+    value !== null && typeof value === "object" && !Array.isArray(value)
+
+const isScalarValue = (value: any) =>
+    value === null || ["string", "number", "boolean"].includes(typeof value)
+
+/** "productName" / "product_name" -> "Product name" */
+function humanizeKey(key: string): string {
+    const words = key
+        .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+        .replace(/[_-]+/g, " ")
+        .trim()
+        .toLowerCase()
+    return words.charAt(0).toUpperCase() + words.slice(1)
+}
+
+/** First of `keys` that holds a non-empty string on `item`. */
+function pickStringKey(item: Record<string, any>, keys: string[]) {
+    return keys.find(
+        (key) => typeof item[key] === "string" && item[key].trim() !== ""
+    )
+}
+
+/**
+ * Splits a reply into its item list and top-level fields. An object with a
+ * single array property, e.g. `{ intro, products: [...] }`, is treated as a
+ * list of products with `intro` shown above it.
+ */
+function splitStructuredData(data: any): {
+    items: any[] | null
+    fields: Record<string, any>
+} {
+    if (Array.isArray(data)) return { items: data, fields: {} }
+    if (!isPlainObject(data)) return { items: null, fields: { value: data } }
+    const arrayKeys = Object.keys(data).filter((key) => Array.isArray(data[key]))
+    if (arrayKeys.length !== 1) return { items: null, fields: data }
+    const { [arrayKeys[0]]: items, ...fields } = data
+    return { items, fields }
+}
+
+function resolveStructuredDisplay(
+    items: any[] | null,
+    display: StructuredDisplay
+): Exclude<StructuredDisplay, "auto"> {
+    if (!items) return "cards"
+    if (display !== "auto") return display
+    const objects = items.filter(isPlainObject)
+    if (objects.length !== items.length || objects.length === 0) return "list"
+    const columns = new Set(objects.flatMap((item) => Object.keys(item)))
+    const flat = objects.every((item) => Object.values(item).every(isScalarValue))
+    return flat && objects.length > 1 && columns.size <= STRUCTURED_TABLE_MAX_COLUMNS
+        ? "table"
+        : "list"
+}
+
+function renderStructuredValue(
+    value: any,
+    key: string,
+    styles: StructuredRenderStyles
+): any {
+    if (value === null || value === undefined || value === "") return "—"
+    if (typeof value === "string") {
+        return applyInlineFormatting(value, key, styles.linkStyle)
+    }
+    if (typeof value === "number" || typeof value === "boolean") {
+        return String(value)
+    }
+    if (Array.isArray(value)) {
+        if (value.every(isScalarValue)) {
+            return applyInlineFormatting(
+                value.map((v) => (v === null ? "—" : String(v))).join(", "),
+                key,
+                styles.linkStyle
+            )
+        }
+        return (
+            <ul style={{ margin: 0, paddingLeft: 20 }}>
+                {value.map((entry, i) => (
+                    <li key={`${key}-${i}`}>
+                        {renderStructuredValue(entry, `${key}-${i}`, styles)}
+                    </li>
+                ))}
+            </ul>
+        )
+    }
+    return renderStructuredFields(value, key, styles)
+}
+
+/** Label/value rows for every field of `item` except `skipKeys`. */
+function renderStructuredFields(
+    item: Record<string, any>,
+    keyPrefix: string,
+    styles: StructuredRenderStyles,
+    skipKeys: string[] = []
+) {
+    const keys = Object.keys(item).filter((key) => !skipKeys.includes(key))
+    if (keys.length === 0) return null
+    return (
+        <div style={{ display: "flex", flexDirection: "column", gap: 6 }}>
+            {keys.map((key) => (
+                <div key={`${keyPrefix}-${key}`}>
+                    <div style={{ fontSize: "0.8em", opacity: 0.6 }}>
+                        {humanizeKey(key)}
+                    </div>
+                    <div>
+                        {renderStructuredValue(
+                            item[key],
+                            `${keyPrefix}-${key}`,
+                            styles
+                        )}
+                    </div>
+                </div>
+            ))}
+        </div>
+    )
+}
+
+/** Title (linked when the item has a URL) and description of a list/card item. */
+function renderStructuredHeading(
+    item: Record<string, any>,
+    keyPrefix: string,
+    styles: StructuredRenderStyles
+) {
+    const titleKey = pickStringKey(item, STRUCTURED_TITLE_KEYS)
+    const linkKey = pickStringKey(item, STRUCTURED_LINK_KEYS)
+    const descriptionKey = pickStringKey(item, STRUCTURED_DESCRIPTION_KEYS)
+    const usedKeys = [titleKey, descriptionKey, titleKey && linkKey].filter(Boolean)
+    const href = linkKey ? safeLinkHref(item[linkKey]) : undefined
+    const heading = titleKey ? (
+        <div style={{ fontWeight: 600 }}>
+            {href ? (
+                <a
+                    href={href}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    style={styles.linkStyle}
+                >
+                    {item[titleKey]}
+                </a>
+            ) : (
+                item[titleKey]
+            )}
+        </div>
+    ) : null
+    const description = descriptionKey ? (
+        <div>
+            {applyInlineFormatting(
+                item[descriptionKey],
+                `${keyPrefix}-desc`,
+                styles.linkStyle
+            )}
+        </div>
+    ) : null
+    return { heading, description, usedKeys }
+}
+
+function renderStructuredCard(
+    item: any,
+    keyPrefix: string,
+    styles: StructuredRenderStyles
+) {
+    const cardStyle: CSSProperties = {
+        border: `1px solid ${styles.borderColor}`,
+        borderRadius: styles.borderRadius,
+        padding: 12,
+        display: "flex",
+        flexDirection: "column",
+        gap: 8,
+    }
+    if (!isPlainObject(item)) {
+        return (
+            <div key={keyPrefix} style={cardStyle}>
+                {renderStructuredValue(item, keyPrefix, styles)}
+            </div>
+        )
+    }
+    const { heading, description, usedKeys } = renderStructuredHeading(
+        item,
+        keyPrefix,
+        styles
+    )
+    return (
+        <div key={keyPrefix} data-layer="structured-card" style={cardStyle}>
+            {heading}
+            {description}
+            {renderStructuredFields(item, keyPrefix, styles, usedKeys)}
+        </div>
+    )
+}
+
+function renderStructuredList(
+    items: any[],
+    keyPrefix: string,
+    styles: StructuredRenderStyles
+) {
+    return (
+        <ul
+            data-layer="structured-list"
+            style={{
+                margin: 0,
+                paddingLeft: 20,
+                display: "flex",
+                flexDirection: "column",
+                gap: 12,
+            }}
+        >
+            {items.map((item, i) => {
+                const itemKey = `${keyPrefix}-${i}`
+                if (!isPlainObject(item)) {
+                    return (
+                        <li key={itemKey}>
+                            {renderStructuredValue(item, itemKey, styles)}
+                        </li>
+                    )
+                }
+                const { heading, description, usedKeys } =
+                    renderStructuredHeading(item, itemKey, styles)
+                const rest = Object.keys(item).filter((k) => !usedKeys.includes(k))
+                return (
+                    <li key={itemKey}>
+                        {heading}
+                        {description}
+                        {rest.length > 0 &&
+                            (rest.every((k) => isScalarValue(item[k])) ? (
+                                <div style={{ fontSize: "0.85em", opacity: 0.7 }}>
+                                    {rest.map((k, j) => (
+                                        <Fragment key={`${itemKey}-${k}`}>
+                                            {j > 0 && " · "}
+                                            {`${humanizeKey(k)}: `}
+                                            {renderStructuredValue(
+                                                item[k],
+                                                `${itemKey}-${k}`,
+                                                styles
+                                            )}
+                                        </Fragment>
+                                    ))}
+                                </div>
+                            ) : (
+                                renderStructuredFields(item, itemKey, styles, usedKeys)
+                            ))}
+                    </li>
+                )
+            })}
+        </ul>
+    )
+}
+
+function renderStructuredTable(
+    items: any[],
+    keyPrefix: string,
+    styles: StructuredRenderStyles
+) {
+    const rows = items.filter(isPlainObject)
+    const columns = [...new Set(rows.flatMap((row) => Object.keys(row)))]
+    return (
+        <div style={{ overflowX: "auto", width: "100%" }}>
+            <table className="chat-markdown-table" data-layer="structured-table">
+                <thead>
+                    <tr>
+                        {columns.map((column) => (
+                            <th key={`${keyPrefix}-h-${column}`}>
+                                {humanizeKey(column)}
+                            </th>
+                        ))}
+                    </tr>
+                </thead>
+                <tbody>
+                    {rows.map((row, i) => (
+                        <tr key={`${keyPrefix}-r-${i}`}>
+                            {columns.map((column) => (
+                                <td key={`${keyPrefix}-r-${i}-${column}`}>
+                                    {renderStructuredValue(
+                                        row[column],
+                                        `${keyPrefix}-r-${i}-${column}`,
+                                        styles
+                                    )}
+                                </td>
+                            ))}
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    )
+}
+
+/** Renders a parsed structured reply as cards, a list or a table. */
+function renderStructuredResponse(
+    data: any,
+    display: StructuredDisplay,
+    keyPrefix: string,
+    styles: StructuredRenderStyles
+) {
+    const { items, fields } = splitStructuredData(data)
+    const layout = resolveStructuredDisplay(items, display)
+    const hasFields = Object.keys(fields).length > 0
+    return (
+        <div
+            data-layer="structured-response"
+            style={{
+                ...styles.baseTextStyle,
+                display: "flex",
+                flexDirection: "column",
+                gap: 12,
+            }}
+        >
+            {hasFields &&
+                (items
+                    ? renderStructuredFields(fields, `${keyPrefix}-fields`, styles)
+                    : renderStructuredCard(fields, `${keyPrefix}-fields`, styles))}
+            {items && layout === "cards" &&
+                items.map((item, i) =>
+                    renderStructuredCard(item, `${keyPrefix}-${i}`, styles)
+                )}
+            {items && layout === "list" &&
+                renderStructuredList(items, keyPrefix, styles)}
+            {items && layout === "table" &&
+                renderStructuredTable(items, keyPrefix, styles)}
+        </div>
+    )
+}
+
+// -----------------------------------------------------------------------------
+// Server-Sent Events Parsing
+// -----------------------------------------------------------------------------
+
+/**
+ * Incremental `text/event-stream` parser. Chunks can be split anywhere (mid
+ * line, mid JSON, between CR and LF); partial lines are buffered until they
+ * complete. Returns the joined `data:` payload of every finished event.
+ */
+function createSseParser(): {
+    push(chunk: string): string[]
+    flush(): string[]
+} {
+    let buffer = ""
+    let dataLines: string[] = []
+
+    const dispatch = (out: string[]) => {
+        if (dataLines.length > 0) out.push(dataLines.join("\n"))
+        dataLines = []
+    }
+
+    const processLine = (line: string, out: string[]) => {
+        if (line === "") {
+            dispatch(out)
+            return
+        }
+        if (line.startsWith(":")) return // comment / keep-alive
+        const colonIndex = line.indexOf(":")
+        const field = colonIndex === -1 ? line : line.substring(0, colonIndex)
+        let value = colonIndex === -1 ? "" : line.substring(colonIndex + 1)
+        if (value.startsWith(" ")) value = value.substring(1)
+        if (field === "data") dataLines.push(value)
+    }
+
+    return {
+        push(chunk: string) {
+            const out: string[] = []
+            let text = buffer + chunk
+            if (buffer === "" && text.charCodeAt(0) === 0xfeff) {
+                text = text.substring(1)
+            }
+            // A trailing CR may be the first half of a CRLF split across chunks
+            const heldCarriageReturn = text.endsWith("\r")
+            if (heldCarriageReturn) text = text.substring(0, text.length - 1)
+            const lines = text.split(/\r\n|\r|\n/)
+            buffer = lines.pop() + (heldCarriageReturn ? "\r" : "")
+            for (const line of lines) processLine(line, out)
+            return out
+        },
+        flush() {
+            const out: string[] = []
+            if (buffer !== "") processLine(buffer.replace(/\r$/, ""), out)
+            buffer = ""
+            // Be lenient with servers that end the body without a blank line
+            dispatch(out)
+            return out
+        },
+    }
+}
+
+/** The harm category behind a block: the one flagged `blocked`, else the most probable. */
+function findBlockedCategory(ratings: any): string | undefined {
+    if (!Array.isArray(ratings)) return undefined
+    const rated =
+        ratings.find((r) => r?.blocked) ||
+        ratings.find((r) => r?.probability === "HIGH") ||
+        ratings.find((r) => r?.probability === "MEDIUM")
+    return rated?.category
+}
+
+/** Maps one `streamGenerateContent` payload to events for every candidate part. */
+function parseGeminiStreamPayload(json: any): ChatStreamEvent[] {
+    const events: ChatStreamEvent[] = []
+    const candidates: any[] = Array.isArray(json?.candidates)
+        ? json.candidates
+        : []
+
+    if (json?.promptFeedback?.blockReason && candidates.length === 0) {
+        events.push({
+            type: "blocked",
+            stage: "prompt",
+            reason: json.promptFeedback.blockReason,
+            category: findBlockedCategory(json.promptFeedback.safetyRatings),
+            message: `Blocked: ${json.promptFeedback.blockReason}`,
+        })
+        return events
+    }
+
+    const usage = parseGeminiUsage(json?.usageMetadata)
+    if (usage) events.push({ type: "usage", usage })
+
+    candidates.forEach((candidate, position) => {
+        const candidateIndex =
+            typeof candidate?.index === "number" ? candidate.index : position
+        if (
+            candidate?.finishReason &&
+            candidate.finishReason !== "STOP" &&
+            candidate.finishReason !== "MAX_TOKENS"
+        ) {
+            let displayError = `API Error: ${candidate.finishReason}`
+            if (json.promptFeedback?.blockReason) {
+                displayError = `Blocked: ${json.promptFeedback.blockReason}`
+            } else if (candidate.safetyRatings?.some((r: any) => r.blocked)) {
+                displayError = `Blocked due to safety settings.`
+            }
+            events.push({
+                type: "blocked",
+                stage: "response",
+                reason: candidate.finishReason,
+                category: findBlockedCategory(candidate.safetyRatings),
+                message: displayError,
+            })
+            return
+        }
+        for (const part of candidate?.content?.parts || []) {
+            if (part?.functionCall) {
+                events.push({
+                    type: "toolCall",
+                    call: {
+                        id: part.functionCall.id,
+                        name: part.functionCall.name,
+                        args: part.functionCall.args || {},
+                        thoughtSignature: part.thoughtSignature,
+                    },
+                    candidateIndex,
+                })
+            } else if (part?.thought) {
+                if (part.text) {
+                    events.push({ type: "thought", text: part.text, candidateIndex })
+                }
+            } else if (typeof part?.text === "string") {
+                if (part.text) {
+                    events.push({ type: "text", text: part.text, candidateIndex })
+                }
+            } else if (part) {
+                events.push({ type: "part", part, candidateIndex })
+            }
+        }
+        const grounding = parseGroundingMetadata(candidate?.groundingMetadata)
+        if (grounding) events.push({ type: "grounding", grounding, candidateIndex })
+    })
+    return events
+}
+
+/**
+ * Wraps an SSE parser with a function that maps each JSON payload to events.
+ * `onEnd` can emit events a stateful mapper was still assembling.
+ */
+function createJsonStreamParser(
+    mapPayload: (json: any) => ChatStreamEvent[],
+    onEnd?: () => ChatStreamEvent[]
+): ChatStreamParser {
+    const sse = createSseParser()
+    const toEvents = (payloads: string[]) => {
+        const events: ChatStreamEvent[] = []
+        for (const payload of payloads) {
+            const trimmed = payload.trim()
+            if (!trimmed || trimmed === "[DONE]") continue
+            try {
+                events.push(...mapPayload(JSON.parse(trimmed)))
+            } catch (e) {
+                // ignore malformed events
+            }
+        }
+        return events
+    }
+    return {
+        push: (chunk) => toEvents(sse.push(chunk)),
+        flush: () => [...toEvents(sse.flush()), ...(onEnd ? onEnd() : [])],
+    }
+}
+
+// -----------------------------------------------------------------------------
+// Tool Calling
+// -----------------------------------------------------------------------------
+
+/**
+ * Parses the `toolDeclarations` property control: a JSON array of function
+ * declarations, or Gemini's `{ functionDeclarations: [...] }` wrapper.
+ */
+function parseToolDeclarations(json: string): ToolDeclaration[] {
+    if (!json || !json.trim()) return []
+    try {
+        const parsed = JSON.parse(json)
+        const list = Array.isArray(parsed) ? parsed : parsed?.functionDeclarations
+        if (!Array.isArray(list)) throw new Error("Expected an array")
+        return list.filter(
+            (decl) => decl && typeof decl.name === "string" && decl.name.trim()
+        )
+    } catch (e) {
+        console.warn("Ignoring invalid toolDeclarations JSON", e)
+        return []
+    }
+}
+
+/** Splits an assistant turn's tool calls into model turns, in call order. */
+function groupToolCallsByStep(toolCalls: ToolCallRecord[]): ToolCallRecord[][] {
+    const steps = new Map<number, ToolCallRecord[]>()
+    for (const call of toolCalls) {
+        if (!steps.has(call.step)) steps.set(call.step, [])
+        steps.get(call.step).push(call)
+    }
+    return [...steps.keys()].sort((a, b) => a - b).map((step) => steps.get(step))
+}
+
+/** Function responses must be JSON objects, so wrap anything else. */
+function toToolResponseObject(response: any): Record<string, any> {
+    if (response && typeof response === "object" && !Array.isArray(response)) {
+        return response
+    }
+    return { result: response === undefined ? null : response }
+}
+
+/** Runs one tool call. Missing handlers and thrown errors become error responses the model can read. */
+async function runToolCall(
+    call: ToolCallRequest,
+    handlers: Record<string, ToolHandler>
+): Promise<Record<string, any>> {
+    const handler = handlers[call.name]
+    if (typeof handler !== "function") {
+        return { error: `No handler is registered for tool "${call.name}".` }
+    }
+    try {
+        return toToolResponseObject(await handler(call.args || {}))
+    } catch (e: any) {
+        return { error: e?.message || String(e) }
+    }
+}
+
+// -----------------------------------------------------------------------------
+// Search Grounding
+// -----------------------------------------------------------------------------
+
+/** Normalizes Gemini `groundingMetadata`; returns null when nothing was cited. */
+function parseGroundingMetadata(metadata: any): GroundingInfo | null {
+    if (!metadata) return null
+    const sources: GroundingSource[] = (metadata.groundingChunks || []).map(
+        (chunk: any) => ({
+            uri: chunk?.web?.uri || "",
+            title: chunk?.web?.title || chunk?.web?.uri || "Source",
+        })
+    )
+    const citations = (metadata.groundingSupports || [])
+        .map((support: any) => ({
+            text: support?.segment?.text || "",
+            sourceIndices: (support?.groundingChunkIndices || []).filter(
+                (i: number) => sources[i]?.uri
+            ),
+        }))
+        .filter((c) => c.text && c.sourceIndices.length > 0)
+    const searchEntryPointHtml =
+        metadata.searchEntryPoint?.renderedContent || undefined
+    if (!sources.some((s) => s.uri) && !searchEntryPointHtml) return null
+    return { sources, citations, searchEntryPointHtml }
+}
+
+/**
+ * Wraps Google's Search suggestions markup in a standalone document for a
+ * sandboxed iframe: its global <style> block can't reach the host page, and
+ * its links open in a new tab.
+ */
+function buildSearchSuggestionsDocument(html: string): string {
+    return `<!doctype html><html><head><meta charset="utf-8"><base target="_blank"></head><body style="margin:0">${html}</body></html>`
+}
+
+/**
+ * Adds numbered `<a>` citation markers after each grounded segment so they
+ * render through `applyInlineFormatting` with the normal link style. The
+ * stored answer stays marker-free for copying, speech and history.
+ */
+function insertCitationMarkers(text: string, grounding?: GroundingInfo): string {
+    if (!text || !grounding?.citations.length) return text
+    const insertions: { index: number; markers: string }[] = []
+    let searchFrom = 0
+    for (const citation of grounding.citations) {
+        let found = text.indexOf(citation.text, searchFrom)
+        if (found === -1) found = text.indexOf(citation.text)
+        if (found === -1) continue
+        const end = found + citation.text.length
+        searchFrom = end
+        const markers = citation.sourceIndices
+            .map((i) => {
+                const uri = grounding.sources[i].uri.replace(/"/g, "%22")
+                return `<a href="${uri}">[${i + 1}]</a>`
+            })
+            .join("")
+        insertions.push({ index: end, markers: ` ${markers}` })
+    }
+    insertions.sort((a, b) => b.index - a.index)
+    let result = text
+    for (const { index, markers } of insertions) {
+        result = result.slice(0, index) + markers + result.slice(index)
+    }
+    return result
+}
+
+// -----------------------------------------------------------------------------
+// Chat Providers
+// -----------------------------------------------------------------------------
+// A provider turns the chat history into an HTTP request and turns the
+// streamed response back into text. `sendMessage` only talks to this
+// interface, so pointing ChatOverlay at another backend means adding a
+// provider here rather than touching the send loop.
+
+/** Reads a Blob/File into a bare base64 string (no data URL prefix). */
+function readBlobAsBase64(blob: Blob): Promise<string> {
+    return new Promise<string>((resolve, reject) => {
+        if (typeof window === "undefined" || !window.FileReader) {
+            reject(new Error("FileReader API not available"))
+            return
+        }
+        const reader = new window.FileReader()
+        reader.onload = () => {
+            const result = reader.result as string
+            resolve(result.substring(result.indexOf(",") + 1))
+        }
+        reader.onerror = reject
+        reader.readAsDataURL(blob)
+    })
+}
+
+/**
+ * Resolves a `file` content part to inline data or a remote URI. `local:` URIs
+ * are placeholders for files still held in component state and are handed to
+ * the caller's resolver.
+ */
+async function resolveFilePart(
+    file: { uri: string; mimeType?: string },
+    resolveLocalFile?: ChatRequestInput["resolveLocalFile"]
+): Promise<ResolvedFile | null> {
+    const mimeType = file.mimeType || "application/octet-stream"
+    if (file.uri.startsWith("local:")) {
+        return resolveLocalFile ? resolveLocalFile(file.uri) : null
+    }
+    if (file.uri.startsWith("blob:")) {
+        try {
+            const resp = await fetch(file.uri)
+            return { mimeType, data: await readBlobAsBase64(await resp.blob()) }
+        } catch (e) {
+            console.error("Blob inline transform failed", e)
+            return null
+        }
+    }
+    return { mimeType, uri: file.uri }
+}
+
+function parseDataUrl(url: string): { mimeType: string; data: string } | null {
+    const [header, base64Data] = url.split(",")
+    if (!base64Data) return null
+    const mimeTypeMatch = header.match(/data:(.*);base64/)
+    return {
+        mimeType: mimeTypeMatch ? mimeTypeMatch[1] : "image/jpeg",
+        data: base64Data,
+    }
+}
+
+async function toGeminiParts(
+    content: Message["content"],
+    resolveLocalFile?: ChatRequestInput["resolveLocalFile"]
+): Promise<any[]> {
+    if (typeof content === "string") return [{ text: content }]
+    if (!Array.isArray(content)) return []
+
+    const transformed = await Promise.all(
+        content.map(async (part) => {
+            if (part.type === "text") {
+                return { text: part.text }
+            }
+            if (part.type === "inline_data") {
+                return {
+                    inlineData: {
+                        mimeType: part.inline_data.mimeType,
+                        data: part.inline_data.data,
+                    },
+                }
+            }
+            if (part.type === "image_url" && part.image_url?.url) {
+                const inline = parseDataUrl(part.image_url.url)
+                return inline ? { inlineData: inline } : null
+            }
+            if (part.type === "file" && part.file?.uri) {
+                const resolved = await resolveFilePart(part.file, resolveLocalFile)
+                if (!resolved) return null
+                if ("data" in resolved) {
+                    return {
+                        inlineData: {
+                            mimeType: resolved.mimeType,
+                            data: resolved.data,
+                        },
+                    }
+                }
+                return {
+                    fileData: {
+                        fileUri: resolved.uri,
+                        mimeType: resolved.mimeType,
+                    },
+                }
+            }
+            return null
+        })
+    )
+    return transformed.filter(Boolean)
+}
+
+/** Expands recorded tool calls into Gemini functionCall/functionResponse turns. */
+function toGeminiToolTurns(toolCalls: ToolCallRecord[]): any[] {
+    const turns: any[] = []
+    for (const calls of groupToolCallsByStep(toolCalls)) {
+        turns.push({
+            role: "model",
+            parts: calls.map((call) => ({
+                functionCall: {
+                    ...(call.id ? { id: call.id } : {}),
+                    name: call.name,
+                    args: call.args || {},
+                },
+                ...(call.thoughtSignature
+                    ? { thoughtSignature: call.thoughtSignature }
+                    : {}),
+            })),
+        })
+        turns.push({
+            role: "user",
+            parts: calls.map((call) => ({
+                functionResponse: {
+                    ...(call.id ? { id: call.id } : {}),
+                    name: call.name,
+                    response: toToolResponseObject(call.response),
+                },
+            })),
+        })
+    }
+    return turns
+}
+
+/** The request's `tools` array: function declarations and Google Search. */
+function buildGeminiTools(
+    input: Pick<ChatRequestInput, "tools" | "googleSearch">
+): any[] {
+    const tools: any[] = []
+    if (input.tools?.length) {
+        tools.push({
+            functionDeclarations: input.tools.map((tool) => ({
+                name: tool.name,
+                ...(tool.description ? { description: tool.description } : {}),
+                ...(tool.parameters ? { parameters: tool.parameters } : {}),
+            })),
+        })
+    }
+    if (input.googleSearch) tools.push({ googleSearch: {} })
+    return tools
+}
+
+/** Gemini `contents` for the history, tool rounds expanded into their own turns. */
+async function toGeminiContents(
+    history: Message[],
+    resolveLocalFile?: ChatRequestInput["resolveLocalFile"]
+): Promise<any[]> {
+    const turns = await Promise.all(
+        history.map(async (msg) => {
+            const role = msg.role === "assistant" ? "model" : "user"
+            const parts = await toGeminiParts(msg.content, resolveLocalFile)
+            if (!msg.toolCalls?.length) {
+                if (parts.length === 0) parts.push({ text: "" })
+                return [{ role, parts }]
+            }
+            // Replay each tool round before the final answer, which is
+            // still empty while the loop is running
+            const toolTurns = toGeminiToolTurns(msg.toolCalls)
+            return parts.some((part) => part.text)
+                ? [...toolTurns, { role, parts }]
+                : toolTurns
+        })
+    )
+    return turns.flat()
+}
+
+function createGeminiProvider(endpoint: GeminiEndpoint): ChatProvider {
+    return {
+        id: "gemini",
+        isConfigured: hasGeminiAccess(endpoint),
+        missingConfigMessage: "Gemini API key or proxy URL is required.",
+
+        async buildRequest(input, options) {
+            const body: any = {
+                contents: await toGeminiContents(
+                    input.history,
+                    input.resolveLocalFile
+                ),
+                generationConfig: {},
+            }
+            // A cached system instruction can't be extended, so the summary
+            // leads the conversation instead
+            if (input.cachedContent && input.historySummary) {
+                body.contents.unshift({
+                    role: "user",
+                    parts: [{ text: withHistorySummary("", input.historySummary) }],
+                })
+            }
+
+            // A cache already holds the system instruction and tools, and
+            // Gemini rejects requests that set them again
+            const tools = buildGeminiTools(input)
+            if (tools.length > 0 && !input.cachedContent) body.tools = tools
+            if (input.cachedContent) body.cachedContent = input.cachedContent
+            if (input.safetySettings?.length) {
+                body.safetySettings = input.safetySettings
+            }
+
+            // Configure Thinking (Reasoning) based on reasoningEffort
+            // "none" disables thinking via thinkingBudget: 0
+            // "low" | "medium" | "high" use thinkingLevel (Gemini 3+)
+            if (input.reasoningEffort === "none") {
+                body.generationConfig.thinkingConfig = {
+                    thinkingBudget: 0,
+                }
+            } else {
+                body.generationConfig.thinkingConfig = {
+                    thinkingLevel: input.reasoningEffort,
+                    ...(input.includeThoughts ? { includeThoughts: true } : {}),
+                }
+            }
+            const generationConfig = body.generationConfig
+            if (input.temperature !== undefined) {
+                generationConfig.temperature = input.temperature
+            }
+            if (input.topP !== undefined) generationConfig.topP = input.topP
+            if (input.topK) generationConfig.topK = input.topK
+            if (input.maxOutputTokens) {
+                generationConfig.maxOutputTokens = input.maxOutputTokens
+            }
+            if (input.stopSequences?.length) {
+                generationConfig.stopSequences = input.stopSequences
+            }
+            if (input.presencePenalty) {
+                generationConfig.presencePenalty = input.presencePenalty
+            }
+            if (input.frequencyPenalty) {
+                generationConfig.frequencyPenalty = input.frequencyPenalty
+            }
+            if (input.seed) generationConfig.seed = input.seed
+            if (input.jsonResponse) {
+                body.generationConfig.responseMimeType = "application/json"
+                if (input.jsonResponse.schema) {
+                    body.generationConfig.responseSchema =
+                        input.jsonResponse.schema
+                }
+            }
+
+            const systemInstruction = withHistorySummary(
+                input.systemInstruction,
+                input.historySummary
+            )
+            if (!input.cachedContent && systemInstruction) {
+                body.systemInstruction = {
+                    parts: [{ text: systemInstruction }],
+                }
+            }
+
+            return {
+                url: options.stream
+                    ? buildGeminiUrl(
+                          endpoint,
+                          `/v1beta/models/${input.model}:streamGenerateContent`,
+                          { alt: "sse" }
+                      )
+                    : buildGeminiUrl(
+                          endpoint,
+                          `/v1beta/models/${input.model}:generateContent`
+                      ),
+                headers: buildGeminiHeaders(endpoint, {
+                    "Content-Type": "application/json",
+                }),
+                body,
+            }
+        },
+
+        createStreamParser() {
+            return createJsonStreamParser(parseGeminiStreamPayload)
+        },
+
+        parseResponseText(data) {
+            return data?.candidates?.[0]?.content?.parts?.[0]?.text || ""
+        },
+
+        parseUsage(data) {
+            return parseGeminiUsage(data?.usageMetadata)
+        },
+
+        async buildCountTokensRequest(input) {
+            return {
+                url: buildGeminiUrl(
+                    endpoint,
+                    `/v1beta/models/${input.model}:countTokens`
+                ),
+                headers: buildGeminiHeaders(endpoint, {
+                    "Content-Type": "application/json",
+                }),
+                body: {
+                    contents: await toGeminiContents(
+                        input.history,
+                        input.resolveLocalFile
+                    ),
+                },
+            }
+        },
+
+        parseTokenCount(data) {
+            return typeof data?.totalTokens === "number" ? data.totalTokens : null
+        },
+    }
+}
+
+async function toOpenAiContent(
+    content: Message["content"],
+    resolveLocalFile?: ChatRequestInput["resolveLocalFile"]
+): Promise<string | any[]> {
+    if (typeof content === "string") return content
+    if (!Array.isArray(content)) return ""
+
+    const parts = await Promise.all(
+        content.map(async (part) => {
+            if (part.type === "text") return { type: "text", text: part.text }
+            if (part.type === "image_url") {
+                return { type: "image_url", image_url: { url: part.image_url.url } }
+            }
+            if (part.type === "inline_data") {
+                if (part.inline_data.mimeType.startsWith("image/")) {
+                    return {
+                        type: "image_url",
+                        image_url: {
+                            url: `data:${part.inline_data.mimeType};base64,${part.inline_data.data}`,
+                        },
+                    }
+                }
+                return {
+                    type: "text",
+                    text: `[Attached file: ${part.inline_data.name || part.inline_data.mimeType}]`,
+                }
+            }
+            if (part.type === "file") {
+                const resolved = await resolveFilePart(part.file, resolveLocalFile)
+                if (
+                    resolved &&
+                    "data" in resolved &&
+                    resolved.mimeType.startsWith("image/")
+                ) {
+                    return {
+                        type: "image_url",
+                        image_url: {
+                            url: `data:${resolved.mimeType};base64,${resolved.data}`,
+                        },
+                    }
+                }
+                // Chat Completions has no portable file part, so name it instead
+                return {
+                    type: "text",
+                    text: `[Attached file: ${part.file.name || part.file.mimeType || "file"}]`,
+                }
+            }
+            return null
+        })
+    )
+    return parts.filter(Boolean)
+}
+
+/** Expands recorded tool calls into assistant `tool_calls` and `tool` messages. */
+function toOpenAiToolMessages(toolCalls: ToolCallRecord[]): any[] {
+    const messages: any[] = []
+    groupToolCallsByStep(toolCalls).forEach((calls, stepIndex) => {
+        const ids = calls.map(
+            (call, i) => call.id || `call_${stepIndex}_${i}`
+        )
+        messages.push({
+            role: "assistant",
+            content: null,
+            tool_calls: calls.map((call, i) => ({
+                id: ids[i],
+                type: "function",
+                function: {
+                    name: call.name,
+                    arguments: JSON.stringify(call.args || {}),
+                },
+            })),
+        })
+        calls.forEach((call, i) => {
+            messages.push({
+                role: "tool",
+                tool_call_id: ids[i],
+                content: JSON.stringify(toToolResponseObject(call.response)),
+            })
+        })
+    })
+    return messages
+}
+
+/**
+ * Any server that speaks the OpenAI `/v1/chat/completions` protocol, e.g. a
+ * self-hosted model behind vLLM/Ollama/LM Studio or a local mock.
+ */
+function createOpenAiCompatibleProvider(config: {
+    baseUrl: string
+    apiKey?: string
+}): ChatProvider {
+    const baseUrl = (config.baseUrl || "").trim().replace(/\/+$/, "")
+    return {
+        id: "openai",
+        isConfigured: baseUrl !== "",
+        missingConfigMessage: "Chat completions URL is required.",
+
+        async buildRequest(input, options) {
+            const messages: any[] = []
+            const systemInstruction = withHistorySummary(
+                input.systemInstruction,
+                input.historySummary
+            )
+            if (systemInstruction) {
+                messages.push({ role: "system", content: systemInstruction })
+            }
+            for (const msg of input.history) {
+                const content = await toOpenAiContent(
+                    msg.content,
+                    input.resolveLocalFile
+                )
+                if (msg.toolCalls?.length) {
+                    messages.push(...toOpenAiToolMessages(msg.toolCalls))
+                    // The final answer is still empty while the loop is running
+                    if (!content || content.length === 0) continue
+                }
+                messages.push({
+                    role: msg.role === "assistant" ? "assistant" : "user",
+                    content,
+                })
+            }
+
+            const body: any = {
+                model: input.model,
+                messages,
+                stream: options.stream,
+            }
+            if (options.stream) {
+                // Adds a final chunk with token usage
+                body.stream_options = { include_usage: true }
+            }
+            if (input.reasoningEffort !== "none") {
+                body.reasoning_effort = input.reasoningEffort
+            }
+            if (input.temperature !== undefined) body.temperature = input.temperature
+            if (input.topP !== undefined) body.top_p = input.topP
+            if (input.topK) body.top_k = input.topK // vLLM/Ollama extension
+            if (input.maxOutputTokens) body.max_tokens = input.maxOutputTokens
+            if (input.stopSequences?.length) body.stop = input.stopSequences
+            if (input.presencePenalty) body.presence_penalty = input.presencePenalty
+            if (input.frequencyPenalty) {
+                body.frequency_penalty = input.frequencyPenalty
+            }
+            if (input.seed) body.seed = input.seed
+            if (input.jsonResponse) {
+                body.response_format = input.jsonResponse.schema
+                    ? {
+                          type: "json_schema",
+                          json_schema: {
+                              name: "response",
+                              schema: input.jsonResponse.schema,
+                          },
+                      }
+                    : { type: "json_object" }
+            }
+            if (input.tools?.length) {
+                body.tools = input.tools.map((tool) => ({
+                    type: "function",
+                    function: {
+                        name: tool.name,
+                        description: tool.description || "",
+                        parameters: tool.parameters || {
+                            type: "object",
+                            properties: {},
+                        },
+                    },
+                }))
+            }
+
+            const headers: Record<string, string> = {
+                "Content-Type": "application/json",
+            }
+            if (config.apiKey) headers.Authorization = `Bearer ${config.apiKey}`
+
+            return { url: `${baseUrl}/chat/completions`, headers, body }
+        },
+
+        createStreamParser() {
+            // Tool calls arrive as fragments keyed by index; the arguments
+            // string is only valid JSON once the choice has finished
+            let pendingCalls = new Map<
+                number,
+                { id?: string; name: string; arguments: string }
+            >()
+            const takePendingCalls = (candidateIndex: number) => {
+                const events: ChatStreamEvent[] = [...pendingCalls.values()].map(
+                    (call) => {
+                        let args = {}
+                        try {
+                            args = call.arguments ? JSON.parse(call.arguments) : {}
+                        } catch (e) {
+                            console.warn("Malformed tool call arguments", e)
+                        }
+                        return {
+                            type: "toolCall",
+                            call: { id: call.id, name: call.name, args },
+                            candidateIndex,
+                        }
+                    }
+                )
+                pendingCalls = new Map()
+                return events
+            }
+
+            return createJsonStreamParser(
+                (json) => {
+                    const events: ChatStreamEvent[] = []
+                    const usage = parseOpenAiUsage(json.usage)
+                    if (usage) events.push({ type: "usage", usage })
+                    for (const choice of json.choices || []) {
+                        const candidateIndex = choice.index ?? 0
+                        if (choice.finish_reason === "content_filter") {
+                            events.push({
+                                type: "blocked",
+                                stage: "response",
+                                reason: "content_filter",
+                                message: "Blocked due to safety settings.",
+                            })
+                            continue
+                        }
+                        // Reasoning servers (vLLM, DeepSeek, Ollama) stream
+                        // their thinking under one of these names
+                        const thought =
+                            choice.delta?.reasoning_content ||
+                            choice.delta?.reasoning ||
+                            ""
+                        if (thought) {
+                            events.push({ type: "thought", text: thought, candidateIndex })
+                        }
+                        const text = choice.delta?.content || ""
+                        if (text) events.push({ type: "text", text, candidateIndex })
+                        if (candidateIndex !== 0) continue
+                        for (const fragment of choice.delta?.tool_calls || []) {
+                            const index = fragment.index ?? 0
+                            const call = pendingCalls.get(index) || {
+                                name: "",
+                                arguments: "",
+                            }
+                            if (fragment.id) call.id = fragment.id
+                            if (fragment.function?.name) {
+                                call.name += fragment.function.name
+                            }
+                            if (fragment.function?.arguments) {
+                                call.arguments += fragment.function.arguments
+                            }
+                            pendingCalls.set(index, call)
+                        }
+                        if (choice.finish_reason) {
+                            events.push(...takePendingCalls(candidateIndex))
+                        }
+                    }
+                    return events
+                },
+                () => takePendingCalls(0)
+            )
+        },
+
+        parseResponseText(data) {
+            return data?.choices?.[0]?.message?.content || ""
+        },
+
+        parseUsage(data) {
+            return parseOpenAiUsage(data?.usage)
+        },
+    }
+}
+
+// -----------------------------------------------------------------------------
+// Context Caching
+// -----------------------------------------------------------------------------
+// Long system prompts and pinned knowledge can be stored once as a Gemini
+// `cachedContents` entry and referenced by name instead of being re-sent.
+
+/** Returns the cache name and expiry; errors carry the HTTP `status`. */
+async function readContextCacheResponse(
+    response: Response
+): Promise<{ name: string; expiresAt: number }> {
+    const data = await response.json().catch(() => ({}))
+    if (!response.ok || !data?.name) {
+        throw Object.assign(
+            new Error(
+                data?.error?.message || `Context cache error: ${response.status}`
+            ),
+            { status: response.status }
+        )
+    }
+    const expiresAt = Date.parse(data.expireTime)
+    return { name: data.name, expiresAt: Number.isNaN(expiresAt) ? 0 : expiresAt }
+}
+
+/** Creates a cache holding the system instruction and tools for `model`. */
+async function createGeminiContextCache(
+    transport: GeminiTransport,
+    endpoint: GeminiEndpoint,
+    options: {
+        model: string
+        systemInstruction: string
+        tools: any[]
+        ttlSeconds: number
+        signal?: AbortSignal
+    }
+) {
+    const response = await transport.fetch(
+        buildGeminiUrl(endpoint, "/v1beta/cachedContents"),
+        {
+            method: "POST",
+            headers: buildGeminiHeaders(endpoint, {
+                "Content-Type": "application/json",
+            }),
+            body: JSON.stringify({
+                model: `models/${options.model}`,
+                systemInstruction: { parts: [{ text: options.systemInstruction }] },
+                ...(options.tools.length > 0 ? { tools: options.tools } : {}),
+                ttl: `${options.ttlSeconds}s`,
+            }),
+            signal: options.signal,
+        }
+    )
+    return readContextCacheResponse(response)
+}
+
+/** Pushes a cache's expiry out by `ttlSeconds` from now. */
+async function extendGeminiContextCache(
+    transport: GeminiTransport,
+    endpoint: GeminiEndpoint,
+    name: string,
+    ttlSeconds: number,
+    signal?: AbortSignal
+) {
+    const response = await transport.fetch(
+        buildGeminiUrl(endpoint, `/v1beta/${name}`, { updateMask: "ttl" }),
+        {
+            method: "PATCH",
+            headers: buildGeminiHeaders(endpoint, {
+                "Content-Type": "application/json",
+            }),
+            body: JSON.stringify({ ttl: `${ttlSeconds}s` }),
+            signal,
+        }
+    )
+    return readContextCacheResponse(response)
+}
+
+// -----------------------------------------------------------------------------
+// Token Usage
+// -----------------------------------------------------------------------------
+
+function parseGeminiUsage(metadata: any): TokenUsage | null {
+    if (!metadata) return null
+    return {
+        prompt: metadata.promptTokenCount || 0,
+        output: metadata.candidatesTokenCount || 0,
+        thinking: metadata.thoughtsTokenCount || 0,
+    }
+}
+
+/** `completion_tokens` includes reasoning tokens, so they are split out. */
+function parseOpenAiUsage(usage: any): TokenUsage | null {
+    if (!usage) return null
+    const thinking = usage.completion_tokens_details?.reasoning_tokens || 0
+    return {
+        prompt: usage.prompt_tokens || 0,
+        output: Math.max(0, (usage.completion_tokens || 0) - thinking),
+        thinking,
+    }
+}
+
+function addTokenUsage(a: TokenUsage, b: TokenUsage): TokenUsage {
+    return {
+        prompt: a.prompt + b.prompt,
+        output: a.output + b.output,
+        thinking: a.thinking + b.thinking,
+    }
+}
+
+function totalTokens(usage: TokenUsage): number {
+    return usage.prompt + usage.output + usage.thinking
+}
+
+/** "in 1,234 · out 56 · think 78" for the usage readout. */
+function formatTokenUsage(usage: TokenUsage): string {
+    return [
+        `in ${usage.prompt.toLocaleString()}`,
+        `out ${usage.output.toLocaleString()}`,
+        `think ${usage.thinking.toLocaleString()}`,
+    ].join(" · ")
+}
+
+/** Today's usage. Records from earlier days (or without token fields) start fresh. */
+function readDailyUsage(): DailyUsage {
+    const today = new Date().toISOString().split("T")[0]
+    const usage: DailyUsage = { date: today, count: 0, tokens: EMPTY_TOKEN_USAGE }
+    try {
+        const stored = window.localStorage.getItem(DAILY_USAGE_STORAGE_KEY)
+        const parsed = stored ? JSON.parse(stored) : null
+        if (parsed?.date === today) {
+            usage.count = parsed.count || 0
+            usage.tokens = { ...EMPTY_TOKEN_USAGE, ...parsed.tokens }
+        }
+    } catch (e) {
+        // Ignore localStorage errors
+    }
+    return usage
+}
+
+function writeDailyUsage(usage: DailyUsage) {
+    try {
+        window.localStorage.setItem(DAILY_USAGE_STORAGE_KEY, JSON.stringify(usage))
+    } catch (e) {
+        // Ignore localStorage errors
+    }
+}
+
+/** Token totals for this browser tab, kept across reloads but not tabs. */
+function readSessionUsage(): TokenUsage {
+    try {
+        const stored = window.sessionStorage.getItem(SESSION_USAGE_STORAGE_KEY)
+        return { ...EMPTY_TOKEN_USAGE, ...(stored ? JSON.parse(stored) : {}) }
+    } catch (e) {
+        return EMPTY_TOKEN_USAGE
+    }
+}
+
+/** Adds `usage` to the session and daily totals and returns the new totals. */
+function recordTokenUsage(usage: TokenUsage): {
+    session: TokenUsage
+    today: DailyUsage
+} {
+    const session = addTokenUsage(readSessionUsage(), usage)
+    try {
+        window.sessionStorage.setItem(
+            SESSION_USAGE_STORAGE_KEY,
+            JSON.stringify(session)
+        )
+    } catch (e) {
+        // Ignore sessionStorage errors
+    }
+    const today = readDailyUsage()
+    today.tokens = addTokenUsage(today.tokens, usage)
+    writeDailyUsage(today)
+    return { session, today }
+}
+
+// -----------------------------------------------------------------------------
+// History Budget
+// -----------------------------------------------------------------------------
+// History is trimmed to a token budget rather than a message count. Local
+// estimates decide what goes; a single countTokens call, when the estimate
+// is close to the budget, corrects their scale.
+
+function isAttachmentPart(part: any): boolean {
+    return part?.type !== "text"
+}
+
+/** Rough token cost of a message, attachments and tool rounds included. */
+function estimateMessageTokens(message: Message): number {
+    const parts: any[] =
+        typeof message.content === "string"
+            ? [{ type: "text", text: message.content }]
+            : Array.isArray(message.content)
+              ? message.content
+              : []
+    let tokens = 4 // role and turn framing
+    for (const part of parts) {
+        if (part.type === "text") {
+            tokens += Math.ceil((part.text || "").length / ESTIMATED_CHARS_PER_TOKEN)
+        } else if (part.type === "image_url") {
+            tokens += ESTIMATED_IMAGE_TOKENS
+        } else if (part.type === "inline_data") {
+            const mimeType = part.inline_data?.mimeType || ""
+            const bytes = ((part.inline_data?.data || "").length * 3) / 4
+            tokens += mimeType.startsWith("image/")
+                ? ESTIMATED_IMAGE_TOKENS
+                : Math.ceil(bytes / ESTIMATED_BYTES_PER_MEDIA_TOKEN)
+        } else if (part.type === "file") {
+            tokens += ESTIMATED_FILE_TOKENS
+        }
+    }
+    if (message.toolCalls?.length) {
+        tokens += Math.ceil(
+            JSON.stringify(message.toolCalls).length / ESTIMATED_CHARS_PER_TOKEN
+        )
+    }
+    return tokens
+}
+
+/** File name of an attachment part, or its type when it has none. */
+function attachmentLabel(part: any): string {
+    return (
+        part.inline_data?.name ||
+        part.file?.name ||
+        part.inline_data?.mimeType ||
+        part.file?.mimeType ||
+        "image"
+    )
+}
+
+/** Replaces a message's attachments with a short note naming them. */
+function downgradeAttachments(message: Message): Message {
+    if (!Array.isArray(message.content)) return message
+    return {
+        ...message,
+        content: message.content.map((part: any) => {
+            if (!isAttachmentPart(part)) return part
+            return {
+                type: "text",
+                text: `[Earlier attachment not resent: ${attachmentLabel(part)}]`,
+            }
+        }),
+    }
+}
+
+/**
+ * Trims `history` to about `budget` tokens. Attachments go first, oldest
+ * message first, then whole messages from the start. The last message, the
+ * turn being answered, is never changed. `scale` corrects the estimate.
+ */
+function fitHistoryToBudget(
+    history: Message[],
+    budget: number,
+    scale = 1
+): Message[] {
+    const result = [...history]
+    const costs = result.map(estimateMessageTokens)
+    const total = () => costs.reduce((sum, cost) => sum + cost, 0) * scale
+
+    for (let i = 0; i < result.length - 1 && total() > budget; i++) {
+        if (!Array.isArray(result[i].content)) continue
+        if (!result[i].content.some(isAttachmentPart)) continue
+        result[i] = downgradeAttachments(result[i])
+        costs[i] = estimateMessageTokens(result[i])
+    }
+    let dropped = false
+    while (result.length > 1 && total() > budget) {
+        result.shift()
+        costs.shift()
+        dropped = true
+    }
+    // Don't open on an answer whose question was dropped
+    while (dropped && result.length > 1 && result[0].role === "assistant") {
+        result.shift()
+        costs.shift()
+    }
+    return result
+}
+
+// -----------------------------------------------------------------------------
+// Retry & Model Fallback
+// -----------------------------------------------------------------------------
+
+/** Parses a `Retry-After` header (delta-seconds or HTTP date) into ms. */
+function parseRetryAfterHeader(value: string | null): number | null {
+    if (!value) return null
+    const seconds = Number(value.trim())
+    if (!isNaN(seconds)) return Math.max(0, seconds * 1000)
+    const date = Date.parse(value)
+    if (!isNaN(date)) return Math.max(0, date - Date.now())
+    return null
+}
+
+/**
+ * Server-requested wait in ms, from the `Retry-After` header or, for Gemini,
+ * the `google.rpc.RetryInfo` detail in the error body.
+ */
+async function getServerRetryDelayMs(response: Response): Promise<number | null> {
+    const fromHeader = parseRetryAfterHeader(response.headers.get("Retry-After"))
+    if (fromHeader !== null) return fromHeader
+    try {
+        const data = await response.clone().json()
+        const retryInfo = (data?.error?.details || []).find(
+            (d: any) => typeof d?.retryDelay === "string"
+        )
+        const seconds = parseFloat(retryInfo?.retryDelay)
+        if (!isNaN(seconds)) return Math.max(0, seconds * 1000)
+    } catch (e) {
+        // Body was not JSON
+    }
+    return null
+}
+
+/** Exponential backoff with jitter for the given attempt, capped at the maximum delay. */
+function retryBackoffMs(attempt: number): number {
+    return Math.min(
+        RETRY_BASE_DELAY_MS * Math.pow(2, attempt) +
+            Math.random() * RETRY_BASE_DELAY_MS,
+        RETRY_MAX_DELAY_MS
+    )
+}
+
+function waitWithAbort(ms: number, signal: AbortSignal): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+        if (signal.aborted) {
+            reject(new DOMException("Aborted", "AbortError"))
+            return
+        }
+        const id = setTimeout(() => {
+            signal.removeEventListener("abort", onAbort)
+            resolve()
+        }, ms)
+        const onAbort = () => {
+            clearTimeout(id)
+            reject(new DOMException("Aborted", "AbortError"))
+        }
+        signal.addEventListener("abort", onAbort, { once: true })
+    })
+}
+
+/**
+ * Sends a request to each model in `models` in turn. Retryable statuses and
+ * network failures are retried with exponential backoff (or the server's
+ * requested delay); when a model stays unavailable the next one is tried.
+ * Resolves with the first OK response, or the last failed one when every
+ * option is exhausted. A network failure that outlasts the retries is thrown,
+ * as is an abort.
+ */
+async function fetchWithRetry(
+    buildRequest: (model: string) => Promise<ProviderRequest>,
+    sendRequest: (request: ProviderRequest) => Promise<Response>,
+    models: string[],
+    options: {
+        maxRetries: number
+        signal: AbortSignal
+        onRetry?: (info: RetryState) => void
+    }
+): Promise<{ response: Response; model: string }> {
+    let lastResponse: Response | null = null
+    let lastModel = models[0]
+
+    for (let modelIndex = 0; modelIndex < models.length; modelIndex++) {
+        const model = models[modelIndex]
+        if (modelIndex > 0) {
+            options.onRetry?.({ model, attempt: 0, fallback: true })
+        }
+
+        for (let attempt = 0; attempt <= options.maxRetries; attempt++) {
+            let response: Response
+            try {
+                response = await sendRequest(await buildRequest(model))
+            } catch (e: any) {
+                // fetch rejects with a TypeError when the network drops; the
+                // same failure would hit every model, so no fallback here
+                if (
+                    options.signal.aborted ||
+                    e?.name === "AbortError" ||
+                    !(e instanceof TypeError) ||
+                    attempt === options.maxRetries
+                ) {
+                    throw e
+                }
+                options.onRetry?.({ model, attempt: attempt + 1, fallback: modelIndex > 0 })
+                await waitWithAbort(retryBackoffMs(attempt), options.signal)
+                continue
+            }
+            if (response.ok) return { response, model }
+
+            lastResponse = response
+            lastModel = model
+            if (
+                !RETRYABLE_STATUS_CODES.includes(response.status) ||
+                attempt === options.maxRetries
+            ) {
+                break
+            }
+
+            const serverDelay = await getServerRetryDelayMs(response)
+            // A wait longer than we are willing to sit through: try the next model
+            if (serverDelay !== null && serverDelay > RETRY_MAX_DELAY_MS) break
+            const delayMs = serverDelay ?? retryBackoffMs(attempt)
+
+            response.body?.cancel().catch(() => {})
+            options.onRetry?.({ model, attempt: attempt + 1, fallback: modelIndex > 0 })
+            await waitWithAbort(delayMs, options.signal)
+        }
+
+        // Errors like 400 would fail the same way on every model
+        if (!lastResponse || !FALLBACK_STATUS_CODES.includes(lastResponse.status)) {
+            break
+        }
+        if (modelIndex < models.length - 1) {
+            lastResponse.body?.cancel().catch(() => {})
+        }
+    }
+
+    return { response: lastResponse as Response, model: lastModel }
+}
+
+// -----------------------------------------------------------------------------
+// Mock Transport
+// -----------------------------------------------------------------------------
+// Stands in for the Gemini API on the canvas, in previews and in offline
+// tests. It speaks the real wire format (SSE split at arbitrary byte
+// boundaries, JSON errors, Live messages), so everything after `fetch` runs
+// unchanged. Chunk sizes and delays come from a seeded generator and repeat
+// exactly for the same seed and conversation.
+
+const NETWORK_TRANSPORT: GeminiTransport = {
+    fetch: (url, init) => fetch(url, init),
+    createWebSocket: (url) => new WebSocket(url),
+}
+
+/** Deterministic PRNG (mulberry32) returning floats in [0, 1). */
+function createSeededRandom(seed: number): () => number {
+    let state = seed >>> 0
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0
+        let t = state
+        t = Math.imul(t ^ (t >>> 15), t | 1)
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+    }
+}
+
+/** Replies for the "script" scenario: blocks separated by a `---` line. */
+function parseMockScript(script: string): string[] {
+    return (script || "")
+        .split(/^\s*---\s*$/m)
+        .map((reply) => reply.trim())
+        .filter(Boolean)
+}
+
+/** Cuts `text` into pieces of 1 to `maxLength` characters. */
+function splitRandomly(
+    text: string,
+    random: () => number,
+    maxLength: number
+): string[] {
+    const pieces: string[] = []
+    for (let i = 0; i < text.length; ) {
+        const length = 1 + Math.floor(random() * maxLength)
+        pieces.push(text.slice(i, i + length))
+        i += length
+    }
+    return pieces
+}
+
+function mockJsonResponse(status: number, data: any): Response {
+    return new Response(JSON.stringify(data), {
+        status,
+        headers: { "Content-Type": "application/json" },
+    })
+}
+
+/** Streams `payloads` as SSE events, each spread over several reads. */
+function mockSseResponse(
+    payloads: any[],
+    random: () => number,
+    signal: AbortSignal
+): Response {
+    const encoder = new TextEncoder()
+    const body = new ReadableStream({
+        async start(controller) {
+            try {
+                for (const payload of payloads) {
+                    const event = `data: ${JSON.stringify(payload)}\r\n\r\n`
+                    for (const slice of splitRandomly(event, random, 48)) {
+                        await waitWithAbort(
+                            MOCK_CHUNK_DELAY_MS * (0.5 + random()),
+                            signal
+                        )
+                        controller.enqueue(encoder.encode(slice))
+                    }
+                }
+                controller.close()
+            } catch (e) {
+                controller.error(e)
+            }
+        },
+    })
+    return new Response(body, {
+        status: 200,
+        headers: { "Content-Type": "text/event-stream" },
+    })
+}
+
+/**
+ * Token count for the mock `:countTokens` endpoint, from the Gemini-format
+ * contents, priced like the local estimate so budget trimming behaves the
+ * same offline.
+ */
+function countMockTokens(contents: any[]): number {
+    let tokens = 0
+    for (const content of contents) {
+        tokens += 4 // role and turn framing
+        for (const part of content?.parts || []) {
+            if (typeof part.text === "string") {
+                tokens += Math.ceil(part.text.length / ESTIMATED_CHARS_PER_TOKEN)
+            } else if (part.inlineData) {
+                tokens += (part.inlineData.mimeType || "").startsWith("image/")
+                    ? ESTIMATED_IMAGE_TOKENS
+                    : Math.ceil(
+                          ((part.inlineData.data || "").length * 3) /
+                              4 /
+                              ESTIMATED_BYTES_PER_MEDIA_TOKEN
+                      )
+            } else if (part.fileData) {
+                tokens += ESTIMATED_FILE_TOKENS
+            } else {
+                // Tool calls and responses
+                tokens += Math.ceil(
+                    JSON.stringify(part).length / ESTIMATED_CHARS_PER_TOKEN
+                )
+            }
+        }
+    }
+    return tokens
+}
+
+/** Echo of the last user turn, or the scripted reply for this turn. */
+function buildMockReply(body: any, options: MockTransportOptions): string {
+    const userTurns = (body?.contents || []).filter((c) => c.role === "user")
+    const lastText = (userTurns[userTurns.length - 1]?.parts || [])
+        .map((part) => part.text || "")
+        .join("")
+        .trim()
+    const reply =
+        options.scenario === "script" && options.script.length > 0
+            ? options.script[(userTurns.length - 1) % options.script.length]
+            : `You said: ${lastText || "(attachment)"}`
+    return body?.generationConfig?.responseMimeType === "application/json"
+        ? JSON.stringify({ reply })
+        : reply
+}
+
+/** `streamGenerateContent` payloads for `reply`, thoughts and usage included. */
+function buildMockStreamPayloads(
+    reply: string,
+    body: any,
+    random: () => number
+): any[] {
+    const candidate = (parts: any[], extra = {}) => ({
+        candidates: [{ index: 0, content: { role: "model", parts }, ...extra }],
+    })
+    const thought = "Working out a mock answer…"
+    const includeThoughts =
+        !!body?.generationConfig?.thinkingConfig?.includeThoughts
+    const payloads = includeThoughts
+        ? [candidate([{ text: thought, thought: true }])]
+        : []
+    for (const piece of splitRandomly(reply, random, 12)) {
+        payloads.push(candidate([{ text: piece }]))
+    }
+    const promptTokenCount = Math.ceil(JSON.stringify(body?.contents || []).length / 4)
+    const candidatesTokenCount = Math.ceil(reply.length / 4)
+    const thoughtsTokenCount = includeThoughts ? Math.ceil(thought.length / 4) : 0
+    payloads.push({
+        ...candidate([{ text: "" }], { finishReason: "STOP" }),
+        usageMetadata: {
+            promptTokenCount,
+            candidatesTokenCount,
+            thoughtsTokenCount,
+            totalTokenCount:
+                promptTokenCount + candidatesTokenCount + thoughtsTokenCount,
+        },
+    })
+    return payloads
+}
+
+/** `fetch` stand-in answering the Gemini endpoints ChatOverlay calls. */
+function createMockFetch(options: MockTransportOptions): GeminiTransport["fetch"] {
+    // Bodies already answered with a 429, so the automatic retry succeeds
+    const rateLimited = new Set<string>()
+
+    return async (url, init = {}) => {
+        const path = new URL(url, "https://mock.invalid").pathname
+        const bodyText = typeof init.body === "string" ? init.body : ""
+        let body: any = {}
+        try {
+            body = bodyText ? JSON.parse(bodyText) : {}
+        } catch (e) {
+            // Uploads send the file itself
+        }
+        const userTurns = (body.contents || []).filter((c) => c.role === "user")
+        const random = createSeededRandom(options.seed + userTurns.length)
+        const signal = init.signal || new AbortController().signal
+        await waitWithAbort(MOCK_CHUNK_DELAY_MS * (2 + random() * 4), signal)
+
+        if (path.endsWith(":streamGenerateContent")) {
+            if (options.scenario === "error") {
+                return mockJsonResponse(500, {
+                    error: { code: 500, message: "Mock server error.", status: "INTERNAL" },
+                })
+            }
+            if (options.scenario === "rateLimit" && !rateLimited.has(bodyText)) {
+                rateLimited.add(bodyText)
+                return mockJsonResponse(429, {
+                    error: {
+                        code: 429,
+                        message: "Mock rate limit.",
+                        status: "RESOURCE_EXHAUSTED",
+                        details: [
+                            {
+                                "@type": "type.googleapis.com/google.rpc.RetryInfo",
+                                retryDelay: "1s",
+                            },
+                        ],
+                    },
+                })
+            }
+            if (options.scenario === "blocked") {
+                return mockSseResponse(
+                    [
+                        {
+                            promptFeedback: {
+                                blockReason: "SAFETY",
+                                safetyRatings: [
+                                    {
+                                        category: "HARM_CATEGORY_HARASSMENT",
+                                        probability: "HIGH",
+                                        blocked: true,
+                                    },
+                                ],
+                            },
+                        },
+                    ],
+                    random,
+                    signal
+                )
+            }
+            return mockSseResponse(
+                buildMockStreamPayloads(buildMockReply(body, options), body, random),
+                random,
+                signal
+            )
+        }
+        if (path.endsWith(":countTokens")) {
+            return mockJsonResponse(200, {
+                totalTokens: countMockTokens(body.contents || []),
+            })
+        }
+        if (path.endsWith(":generateContent")) {
+            // History summaries carry a system instruction; suggestions don't
+            const text = body.systemInstruction
+                ? MOCK_SUMMARY
+                : JSON.stringify(MOCK_SUGGESTIONS)
+            return mockJsonResponse(200, {
+                candidates: [
+                    {
+                        content: {
+                            role: "model",
+                            parts: [{ text }],
+                        },
+                        finishReason: "STOP",
+                    },
+                ],
+            })
+        }
+        if (path.startsWith("/upload/")) {
+            return mockJsonResponse(200, {
+                file: {
+                    name: "files/mock-file",
+                    uri: "https://mock.invalid/v1beta/files/mock-file",
+                    mimeType:
+                        new Headers(init.headers).get("Content-Type") ||
+                        "application/octet-stream",
+                    displayName: "mock-file",
+                },
+            })
+        }
+        return mockJsonResponse(404, {
+            error: { code: 404, message: `No mock for ${path}` },
+        })
+    }
+}
+
+/**
+ * Live API stand-in: answers the setup message, then plays one transcribed
+ * exchange. Audio sent to it is ignored; the "error" scenario fails instead.
+ */
+function createMockLiveSocket(options: MockTransportOptions): WebSocket {
+    const timers: any[] = []
+    const later = (ms: number, run: () => void) => timers.push(setTimeout(run, ms))
+    const socket: any = {
+        readyState: 0,
+        onopen: null,
+        onmessage: null,
+        onclose: null,
+        onerror: null,
+    }
+    const emit = (data: any) => {
+        if (socket.readyState === 1) socket.onmessage?.({ data: JSON.stringify(data) })
+    }
+
+    socket.send = (text: string) => {
+        let message: any = null
+        try {
+            message = JSON.parse(text)
+        } catch (e) {
+            return
+        }
+        if (!message?.setup) return
+        const random = createSeededRandom(options.seed)
+        const reply =
+            options.scenario === "script" && options.script.length > 0
+                ? options.script[0]
+                : MOCK_LIVE_REPLY
+        let at = MOCK_CHUNK_DELAY_MS
+        later(at, () => emit({ setupComplete: {} }))
+        if (options.scenario === "error") {
+            later((at += 500), () => socket.onerror?.({ type: "error" }))
+            return
+        }
+        later((at += 500), () =>
+            emit({ serverContent: { inputTranscription: { text: MOCK_LIVE_USER_TEXT } } })
+        )
+        later((at += 300), () => emit({ serverContent: { modelTurn: { parts: [] } } }))
+        for (const piece of splitRandomly(reply, random, 12)) {
+            later((at += MOCK_CHUNK_DELAY_MS * (1 + random() * 2)), () =>
+                emit({ serverContent: { outputTranscription: { text: piece } } })
+            )
+        }
+        later((at += 300), () => emit({ serverContent: { turnComplete: true } }))
+    }
+    socket.close = () => {
+        if (socket.readyState === 3) return
+        timers.forEach(clearTimeout)
+        socket.readyState = 3
+        socket.onclose?.({ code: 1000, reason: "" })
+    }
+    later(MOCK_CHUNK_DELAY_MS, () => {
+        socket.readyState = 1
+        socket.onopen?.({ type: "open" })
+    })
+    return socket as WebSocket
+}
+
+function createMockTransport(options: MockTransportOptions): GeminiTransport {
+    return {
+        fetch: createMockFetch(options),
+        createWebSocket: () => createMockLiveSocket(options),
+    }
+}
+
+// -----------------------------------------------------------------------------
+// Conversation Storage
+// -----------------------------------------------------------------------------
+// With `persistConversation` on, the transcript and its suggestions are kept
+// in IndexedDB. Inline attachments sit in a store of their own and messages
+// only reference them, so saving after every turn doesn't rewrite them.
+// Records carry a schema version and are migrated one step at a time when
+// loaded; a record that can't be migrated is dropped, not half-restored.
+// Each thread is a record of its own.
+
+interface StoredConversation {
+    id: string
+    schemaVersion: number
+    createdAt: number // ms since epoch, since schema version 2
+    updatedAt: number // ms since epoch; expires retentionDays later
+    messages: Message[] // inline data swapped for `attachmentId` references
+    suggestions: string[]
+    title?: string // set by renaming the thread
+}
+
+// One entry in the thread list
+interface ConversationSummary {
+    id: string
+    title: string // empty until the thread is renamed
+    preview: string // first question, shown for untitled threads
+    createdAt: number
+    updatedAt: number
+}
+
+interface StoredAttachment {
+    id: string
+    conversationId: string
+    data: string // base64 for inline_data, a data URL for image_url
+}
+
+// Upgrades a record written with the keyed schema version to the next one.
+// Bump CONVERSATION_SCHEMA_VERSION and add an entry whenever the stored
+// shape of a record or of Message changes.
+const CONVERSATION_MIGRATIONS: Record<number, (record: any) => any> = {
+    // 1 → 2: records remember when the chat started. Older ones only know
+    // their last update, which is the best guess available.
+    1: (record) => ({ ...record, createdAt: record.updatedAt }),
+}
+
+// Attachments already written, keyed by the part object holding their data
+const storedAttachmentIds = new WeakMap<
+    object,
+    { conversationId: string; id: string }
+>()
+
+let conversationDbPromise: Promise<IDBDatabase> | null = null
+
+function idbRequest<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => reject(request.error)
+    })
+}
+
+function idbTransactionDone(tx: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve()
+        tx.onerror = () => reject(tx.error)
+        tx.onabort = () => reject(tx.error || new Error("Transaction aborted."))
+    })
+}
+
+/** Opens the chat database, creating or upgrading its stores as needed. */
+function openConversationDb(): Promise<IDBDatabase> {
+    if (conversationDbPromise) return conversationDbPromise
+    conversationDbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+        if (typeof indexedDB === "undefined") {
+            reject(new Error("IndexedDB is not available."))
+            return
+        }
+        const request = indexedDB.open(
+            CONVERSATION_DB_NAME,
+            CONVERSATION_DB_VERSION
+        )
+        request.onupgradeneeded = (event) => {
+            const db = request.result
+            // One step per version upgraded from
+            if (event.oldVersion < 1) {
+                db.createObjectStore(CONVERSATION_STORE, { keyPath: "id" })
+                db.createObjectStore(ATTACHMENT_STORE, {
+                    keyPath: "id",
+                }).createIndex("conversationId", "conversationId")
+            }
+        }
+        request.onsuccess = () => {
+            const db = request.result
+            // Step aside when another tab opens a newer version
+            db.onversionchange = () => {
+                db.close()
+                conversationDbPromise = null
+            }
+            resolve(db)
+        }
+        request.onerror = () => reject(request.error)
+    })
+    conversationDbPromise.catch(() => {
+        conversationDbPromise = null
+    })
+    return conversationDbPromise
+}
+
+function newStorageId(): string {
+    if (typeof crypto !== "undefined" && crypto.randomUUID) {
+        return crypto.randomUUID()
+    }
+    return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`
+}
+
+/** Applies `mapContent` to every message's content, branches included. */
+function mapStoredContents(
+    messages: Message[],
+    mapContent: (content: Message["content"]) => Message["content"]
+): Message[] {
+    return messages.map((message) => ({
+        ...message,
+        content: mapContent(message.content),
+        ...(message.branches
+            ? {
+                  branches: message.branches.map((branch) => ({
+                      content: mapContent(branch.content),
+                      messages: mapStoredContents(branch.messages, mapContent),
+                  })),
+              }
+            : {}),
+    }))
+}
+
+/**
+ * Swaps inline attachment data for ids. Attachments not yet stored for
+ * `conversationId` are added to `pending`; every id referenced ends up in
+ * `used`.
+ */
+function dehydrateContent(
+    content: Message["content"],
+    conversationId: string,
+    pending: Map<object, StoredAttachment>,
+    used: Set<string>
+): Message["content"] {
+    if (!Array.isArray(content)) return content
+    const reference = (holder: object, data: string) => {
+        const known = storedAttachmentIds.get(holder)
+        let id =
+            known?.conversationId === conversationId
+                ? known.id
+                : pending.get(holder)?.id
+        if (!id) {
+            id = newStorageId()
+            pending.set(holder, { id, conversationId, data })
+        }
+        used.add(id)
+        return id
+    }
+    return content.map((part: any) => {
+        if (part.type === "inline_data" && part.inline_data?.data) {
+            const { data, ...rest } = part.inline_data
+            return {
+                type: "inline_data",
+                inline_data: {
+                    ...rest,
+                    attachmentId: reference(part.inline_data, data),
+                },
+            }
+        }
+        if (
+            part.type === "image_url" &&
+            part.image_url?.url?.startsWith("data:")
+        ) {
+            return {
+                type: "image_url",
+                image_url: {
+                    url: "",
+                    attachmentId: reference(part.image_url, part.image_url.url),
+                },
+            }
+        }
+        return part
+    }) as Message["content"]
+}
+
+/**
+ * Puts attachment data back. Attachments that can't come back (missing data,
+ * files that only lived in the page, expired uploads) become a short note.
+ */
+function hydrateContent(
+    content: Message["content"],
+    conversationId: string,
+    attachments: Map<string, string>
+): Message["content"] {
+    if (!Array.isArray(content)) return content
+    const unavailable = (part: any) => ({
+        type: "text",
+        text: `[Earlier attachment no longer available: ${attachmentLabel(part)}]`,
+    })
+    return content.map((part: any) => {
+        if (part.type === "inline_data" && part.inline_data?.attachmentId) {
+            const { attachmentId, ...rest } = part.inline_data
+            const data = attachments.get(attachmentId)
+            if (!data) return unavailable(part)
+            const inline_data = { ...rest, data }
+            storedAttachmentIds.set(inline_data, {
+                conversationId,
+                id: attachmentId,
+            })
+            return { type: "inline_data", inline_data }
+        }
+        if (part.type === "image_url" && part.image_url?.attachmentId) {
+            const { attachmentId } = part.image_url
+            const url = attachments.get(attachmentId)
+            if (!url) return unavailable(part)
+            const image_url = { url }
+            storedAttachmentIds.set(image_url, {
+                conversationId,
+                id: attachmentId,
+            })
+            return { type: "image_url", image_url }
+        }
+        if (part.type === "file") {
+            const { uri = "", uploadedAt } = part.file || {}
+            const expired =
+                uploadedAt &&
+                Date.now() - uploadedAt > UPLOADED_FILE_LIFETIME_MS
+            if (
+                uri.startsWith("local:") ||
+                uri.startsWith("blob:") ||
+                expired
+            ) {
+                return unavailable(part)
+            }
+        }
+        return part
+    }) as Message["content"]
+}
+
+/**
+ * True for a record written by a newer build (after a rollback, or with a
+ * newer build open in another tab). Such records are left untouched.
+ */
+function isNewerStoredConversation(record: any): boolean {
+    return Number(record?.schemaVersion) > CONVERSATION_SCHEMA_VERSION
+}
+
+/** Brings a stored record up to CONVERSATION_SCHEMA_VERSION, or null. */
+function migrateStoredConversation(record: any): StoredConversation | null {
+    if (!record || typeof record !== "object") return null
+    let migrated = record
+    let version = Number(record.schemaVersion) || 0
+    while (version < CONVERSATION_SCHEMA_VERSION) {
+        const migrate = CONVERSATION_MIGRATIONS[version]
+        if (!migrate) return null
+        migrated = migrate(migrated)
+        version += 1
+    }
+    // Newer than this build understands
+    if (version !== CONVERSATION_SCHEMA_VERSION) return null
+    if (!Array.isArray(migrated?.messages)) return null
+    return {
+        ...migrated,
+        schemaVersion: version,
+        suggestions: Array.isArray(migrated.suggestions)
+            ? migrated.suggestions
+            : [],
+    }
+}
+
+function summarizeConversation(
+    conversation: StoredConversation
+): ConversationSummary {
+    const firstQuestion = conversation.messages.find((m) => m.role === "user")
+    const preview = firstQuestion
+        ? getMessageText(firstQuestion.content).replace(/\s+/g, " ").trim()
+        : ""
+    return {
+        id: conversation.id,
+        title: conversation.title || "",
+        preview: preview.slice(0, THREAD_PREVIEW_LENGTH),
+        createdAt: conversation.createdAt,
+        updatedAt: conversation.updatedAt,
+    }
+}
+
+/** Label shown for a thread in the list and the mobile header. */
+function threadLabel(summary?: ConversationSummary | null): string {
+    return summary?.title || summary?.preview || "New chat"
+}
+
+/** Removes a conversation and its attachments within `tx`. */
+function deleteConversationRecords(tx: IDBTransaction, id: string) {
+    tx.objectStore(CONVERSATION_STORE).delete(id)
+    const attachments = tx.objectStore(ATTACHMENT_STORE)
+    const keys = attachments.index("conversationId").getAllKeys(id)
+    keys.onsuccess = () => keys.result.forEach((key) => attachments.delete(key))
+}
+
+/**
+ * Deletes conversations not updated within `retentionDays`, along with any
+ * record too old to migrate, and writes migrated records back so each
+ * migration runs once. 0 keeps conversations forever. Records from a newer
+ * build are skipped: that build owns their expiry.
+ */
+async function deleteExpiredConversations(
+    retentionDays: number
+): Promise<void> {
+    const cutoff =
+        retentionDays > 0 ? Date.now() - retentionDays * 24 * 60 * 60 * 1000 : 0
+    const db = await openConversationDb()
+    const tx = db.transaction(
+        [CONVERSATION_STORE, ATTACHMENT_STORE],
+        "readwrite"
+    )
+    const cursorRequest = tx.objectStore(CONVERSATION_STORE).openCursor()
+    cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result
+        if (!cursor) return
+        const record = cursor.value
+        if (!isNewerStoredConversation(record)) {
+            const migrated = migrateStoredConversation(record)
+            if (!migrated || !(record.updatedAt >= cutoff)) {
+                deleteConversationRecords(tx, record.id ?? cursor.primaryKey)
+            } else if (migrated.schemaVersion !== record.schemaVersion) {
+                cursor.update(migrated)
+            }
+        }
+        cursor.continue()
+    }
+    await idbTransactionDone(tx)
+}
+
+/** Every stored thread, most recently updated first. */
+async function listConversations(): Promise<ConversationSummary[]> {
+    const db = await openConversationDb()
+    const tx = db.transaction(CONVERSATION_STORE, "readonly")
+    const records = await idbRequest(
+        tx.objectStore(CONVERSATION_STORE).getAll()
+    )
+    return records
+        .map(migrateStoredConversation)
+        .filter(Boolean)
+        .map(summarizeConversation)
+        .sort((a, b) => b.updatedAt - a.updatedAt)
+}
+
+/** Sets a stored thread's title; an empty title shows the first question. */
+async function renameConversation(id: string, title: string): Promise<void> {
+    const db = await openConversationDb()
+    const tx = db.transaction(CONVERSATION_STORE, "readwrite")
+    const store = tx.objectStore(CONVERSATION_STORE)
+    const request = store.get(id)
+    request.onsuccess = () => {
+        if (request.result) store.put({ ...request.result, title })
+    }
+    await idbTransactionDone(tx)
+}
+
+async function deleteConversation(id: string): Promise<void> {
+    const db = await openConversationDb()
+    const tx = db.transaction(
+        [CONVERSATION_STORE, ATTACHMENT_STORE],
+        "readwrite"
+    )
+    deleteConversationRecords(tx, id)
+    await idbTransactionDone(tx)
+}
+
+/** Reads a conversation back, migrated and with its attachments in place. */
+async function loadConversation(
+    id: string
+): Promise<StoredConversation | null> {
+    const db = await openConversationDb()
+    const tx = db.transaction(
+        [CONVERSATION_STORE, ATTACHMENT_STORE],
+        "readonly"
+    )
+    const [record, attachments] = await Promise.all([
+        idbRequest(tx.objectStore(CONVERSATION_STORE).get(id)),
+        idbRequest(
+            tx.objectStore(ATTACHMENT_STORE).index("conversationId").getAll(id)
+        ),
+    ])
+    const conversation = migrateStoredConversation(record)
+    if (!conversation) return null
+    const data = new Map<string, string>(
+        (attachments as StoredAttachment[]).map((a) => [a.id, a.data])
+    )
+    return {
+        ...conversation,
+        messages: mapStoredContents(conversation.messages, (content) =>
+            hydrateContent(content, id, data)
+        ),
+    }
+}
+
+/**
+ * Writes a conversation and any attachments new to it, and deletes the
+ * attachments no message refers to any more. Resolves with null, writing
+ * nothing, when `id` holds a record from a newer build.
+ */
+async function saveConversation(
+    id: string,
+    messages: Message[],
+    suggestions: string[]
+): Promise<StoredConversation | null> {
+    const pending = new Map<object, StoredAttachment>()
+    const used = new Set<string>()
+    const now = Date.now()
+    const record: StoredConversation = {
+        id,
+        schemaVersion: CONVERSATION_SCHEMA_VERSION,
+        createdAt: now,
+        updatedAt: now,
+        messages: mapStoredContents(messages, (content) =>
+            dehydrateContent(content, id, pending, used)
+        ),
+        suggestions,
+    }
+    const db = await openConversationDb()
+    const tx = db.transaction(
+        [CONVERSATION_STORE, ATTACHMENT_STORE],
+        "readwrite"
+    )
+    const conversations = tx.objectStore(CONVERSATION_STORE)
+    const attachments = tx.objectStore(ATTACHMENT_STORE)
+    let refused = false
+    const existing = conversations.get(id)
+    existing.onsuccess = () => {
+        if (isNewerStoredConversation(existing.result)) {
+            refused = true
+            tx.abort()
+            return
+        }
+        // Only renameConversation changes the title
+        record.title = existing.result?.title || ""
+        record.createdAt = existing.result?.createdAt || record.createdAt
+        conversations.put(record)
+    }
+    pending.forEach((attachment) => attachments.put(attachment))
+    const keys = attachments.index("conversationId").getAllKeys(id)
+    keys.onsuccess = () => {
+        for (const key of keys.result) {
+            if (!used.has(String(key))) attachments.delete(key)
+        }
+    }
+    try {
+        await idbTransactionDone(tx)
+    } catch (e) {
+        if (refused) return null
+        throw e
+    }
+    pending.forEach(({ id: attachmentId }, holder) =>
+        storedAttachmentIds.set(holder, {
+            conversationId: id,
+            id: attachmentId,
+        })
+    )
+    return record
+}
+
+// -----------------------------------------------------------------------------
+// Conversation Export & Import
+// -----------------------------------------------------------------------------
+// Markdown and the printable page are for people; JSON is the `Message`
+// array itself and is what import reads back. With attachments referenced
+// rather than embedded, inline data is swapped for ids as in storage and
+// comes back as "no longer available" notes.
+
+interface ConversationExport {
+    format: typeof CONVERSATION_EXPORT_FORMAT
+    version: number
+    exportedAt: string // ISO 8601
+    attachments: "embedded" | "referenced"
+    messages: Message[]
+    suggestions: string[]
+}
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;")
+}
+
+/** "chat-2024-05-01.md" style names for downloads. */
+function exportFileName(extension: string): string {
+    return `chat-${new Date().toISOString().split("T")[0]}.${extension}`
+}
+
+function downloadFile(name: string, mimeType: string, contents: string) {
+    const url = URL.createObjectURL(new Blob([contents], { type: mimeType }))
+    const link = document.createElement("a")
+    link.href = url
+    link.download = name
+    document.body.appendChild(link)
+    link.click()
+    link.remove()
+    setTimeout(() => URL.revokeObjectURL(url), 0)
+}
+
+/** The transcript without the system prompt, which is never exported. */
+function exportableMessages(messages: Message[]): Message[] {
+    return messages.filter((m) => m.role !== "system")
+}
+
+function buildConversationJson(
+    messages: Message[],
+    suggestions: string[],
+    embedAttachments: boolean
+): string {
+    const transcript = exportableMessages(messages)
+    const data: ConversationExport = {
+        format: CONVERSATION_EXPORT_FORMAT,
+        version: CONVERSATION_EXPORT_VERSION,
+        exportedAt: new Date().toISOString(),
+        attachments: embedAttachments ? "embedded" : "referenced",
+        messages: embedAttachments
+            ? transcript
+            : mapStoredContents(transcript, (content) =>
+                  dehydrateContent(content, "export", new Map(), new Set())
+              ),
+        suggestions,
+    }
+    return JSON.stringify(data, null, 2)
+}
+
+function buildConversationMarkdown(messages: Message[]): string {
+    const lines = [
+        "# Chat transcript",
+        "",
+        `_Exported ${new Date().toLocaleString()}_`,
+    ]
+    for (const message of exportableMessages(messages)) {
+        lines.push("", message.role === "user" ? "## You" : "## Assistant", "")
+        for (const call of message.toolCalls || []) {
+            lines.push(`_Used tool \`${call.name}\`_`, "")
+        }
+        const text = getMessageText(message.content)
+        if (text) {
+            lines.push(message.structured ? "```json\n" + text + "\n```" : text)
+        }
+        if (Array.isArray(message.content)) {
+            for (const part of message.content) {
+                if (isAttachmentPart(part)) {
+                    lines.push("", `_[Attachment: ${attachmentLabel(part)}]_`)
+                }
+            }
+        }
+        const sources = message.grounding?.sources || []
+        if (sources.length > 0) {
+            lines.push("", "Sources:")
+            sources.forEach((source, i) =>
+                lines.push(
+                    `${i + 1}. [${source.title || source.uri}](${source.uri})`
+                )
+            )
+        }
+    }
+    return lines.join("\n") + "\n"
+}
+
+/** A standalone page styled for printing; images are kept inline. */
+function buildConversationHtml(messages: Message[]): string {
+    const exportedAt = new Date().toLocaleString()
+    const body = exportableMessages(messages)
+        .map((message) => {
+            const isUser = message.role === "user"
+            const parts: any[] = Array.isArray(message.content)
+                ? message.content
+                : [{ type: "text", text: message.content }]
+            const contents = parts
+                .map((part) => {
+                    if (part.type === "text") {
+                        return `<div class="text">${escapeHtml(part.text || "")}</div>`
+                    }
+                    const src =
+                        part.type === "image_url"
+                            ? part.image_url?.url
+                            : part.type === "inline_data" &&
+                                part.inline_data?.mimeType?.startsWith("image/")
+                              ? `data:${part.inline_data.mimeType};base64,${part.inline_data.data}`
+                              : ""
+                    return src
+                        ? `<img src="${escapeHtml(src)}" alt="">`
+                        : `<div class="attachment">${escapeHtml(attachmentLabel(part))}</div>`
+                })
+                .join("")
+            const sources = (message.grounding?.sources || [])
+                .filter((source) => safeLinkHref(source.uri))
+                .map(
+                    (source) =>
+                        `<li><a href="${escapeHtml(source.uri)}">${escapeHtml(source.title || source.uri)}</a></li>`
+                )
+                .join("")
+            return [
+                `<section class="${isUser ? "user" : "assistant"}">`,
+                `<h2>${isUser ? "You" : "Assistant"}</h2>`,
+                contents,
+                sources ? `<ol class="sources">${sources}</ol>` : "",
+                "</section>",
+            ].join("")
+        })
+        .join("\n")
+    return `<!doctype html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Chat transcript</title>
+<style>
+body { font: 15px/1.5 -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; color: #111; max-width: 720px; margin: 32px auto; padding: 0 16px; }
+header { color: #666; margin-bottom: 24px; }
+section { margin: 0 0 16px; padding: 12px 16px; border-radius: 12px; break-inside: avoid; }
+section.user { background: #f2f2f2; }
+h2 { font-size: 12px; text-transform: uppercase; letter-spacing: 0.05em; color: #666; margin: 0 0 4px; }
+.text { white-space: pre-wrap; }
+.attachment { color: #666; font-style: italic; }
+img { max-width: 100%; max-height: 320px; border-radius: 8px; margin-top: 8px; }
+.sources { font-size: 13px; color: #666; }
+@media print { body { margin: 0; } section.user { background: none; border: 1px solid #ddd; } a { color: inherit; } }
+</style>
+</head>
+<body>
+<header><h1>Chat transcript</h1>Exported ${escapeHtml(exportedAt)}</header>
+${body}
+</body>
+</html>
+`
+}
+
+// Imported files are untrusted. Each message is rebuilt from the fields a
+// Message can have, with their types checked, so nothing else in the file
+// reaches state. Raw HTML such as the Search suggestions chip is never read.
+
+const isFiniteNumber = (value: any): value is number =>
+    typeof value === "number" && Number.isFinite(value)
+
+/** An index into a list of `length` items, or undefined. */
+function importedIndex(value: any, length: number): number | undefined {
+    return Number.isInteger(value) && value >= 0 && value < length
+        ? value
+        : undefined
+}
+
+function sanitizeImportedPart(part: any): any | null {
+    if (!isPlainObject(part)) return null
+    if (part.type === "text") {
+        return typeof part.text === "string"
+            ? { type: "text", text: part.text }
+            : null
+    }
+    if (part.type === "image_url" && isPlainObject(part.image_url)) {
+        const { url, attachmentId } = part.image_url
+        if (typeof attachmentId === "string") {
+            return { type: "image_url", image_url: { url: "", attachmentId } }
+        }
+        return typeof url === "string" && /^(data:image\/|https?:)/i.test(url)
+            ? { type: "image_url", image_url: { url } }
+            : null
+    }
+    if (part.type === "inline_data" && isPlainObject(part.inline_data)) {
+        const { mimeType, data, attachmentId, name } = part.inline_data
+        if (typeof mimeType !== "string") return null
+        const inline_data: any = { mimeType }
+        if (typeof data === "string") inline_data.data = data
+        else if (typeof attachmentId === "string") {
+            inline_data.attachmentId = attachmentId
+        } else return null
+        if (typeof name === "string") inline_data.name = name
+        return { type: "inline_data", inline_data }
+    }
+    if (part.type === "file" && isPlainObject(part.file)) {
+        const { uri, mimeType, name, thumbnailDataUrl, uploadedAt } = part.file
+        // local: and blob: references become "no longer available" notes
+        if (typeof uri !== "string" || !/^(https?|local|blob):/i.test(uri)) {
+            return null
+        }
+        const file: any = { uri }
+        if (typeof mimeType === "string") file.mimeType = mimeType
+        if (typeof name === "string") file.name = name
+        if (
+            typeof thumbnailDataUrl === "string" &&
+            thumbnailDataUrl.startsWith("data:image/")
+        ) {
+            file.thumbnailDataUrl = thumbnailDataUrl
+        }
+        if (isFiniteNumber(uploadedAt)) file.uploadedAt = uploadedAt
+        return { type: "file", file }
+    }
+    return null
+}
+
+function sanitizeImportedContent(content: any): Message["content"] | null {
+    if (typeof content === "string") return content
+    if (!Array.isArray(content)) return null
+    return content.map(sanitizeImportedPart).filter(Boolean)
+}
+
+function sanitizeImportedToolCalls(value: any): ToolCallRecord[] | undefined {
+    if (!Array.isArray(value)) return undefined
+    const toolCalls = value
+        .filter((call) => isPlainObject(call) && typeof call.name === "string")
+        .map((call) => ({
+            name: call.name,
+            args: isPlainObject(call.args) ? call.args : {},
+            step: isFiniteNumber(call.step) ? call.step : 0,
+            ...(typeof call.id === "string" ? { id: call.id } : {}),
+            ...(typeof call.thoughtSignature === "string"
+                ? { thoughtSignature: call.thoughtSignature }
+                : {}),
+            // Only ever shown through JSON.stringify
+            ...(call.response !== undefined ? { response: call.response } : {}),
+        }))
+    return toolCalls.length > 0 ? toolCalls : undefined
+}
+
+function sanitizeImportedGrounding(value: any): GroundingInfo | undefined {
+    if (!isPlainObject(value) || !Array.isArray(value.sources)) return undefined
+    const sources: GroundingSource[] = value.sources
+        .filter(isPlainObject)
+        .map((source) => ({
+            uri:
+                typeof source.uri === "string" && /^https?:/i.test(source.uri)
+                    ? source.uri
+                    : "",
+            title: typeof source.title === "string" ? source.title : "Source",
+        }))
+    if (!sources.some((source) => source.uri)) return undefined
+    const citations = (Array.isArray(value.citations) ? value.citations : [])
+        .filter(
+            (citation) =>
+                isPlainObject(citation) &&
+                typeof citation.text === "string" &&
+                Array.isArray(citation.sourceIndices)
+        )
+        .map((citation) => ({
+            text: citation.text,
+            sourceIndices: citation.sourceIndices.filter(
+                (i) => importedIndex(i, sources.length) !== undefined
+            ),
+        }))
+        .filter((citation) => citation.text && citation.sourceIndices.length)
+    return { sources, citations }
+}
+
+function sanitizeImportedUsage(value: any): TokenUsage | undefined {
+    if (!isPlainObject(value)) return undefined
+    const { prompt, output, thinking } = value
+    return [prompt, output, thinking].every(isFiniteNumber)
+        ? { prompt, output, thinking }
+        : undefined
+}
+
+/** The fields a reply and each of its versions share, or null without valid content. */
+function sanitizeImportedReply(source: any): AssistantVariant | null {
+    const content = sanitizeImportedContent(source?.content)
+    if (content === null) return null
+    const reply: AssistantVariant = { content }
+    const toolCalls = sanitizeImportedToolCalls(source.toolCalls)
+    if (toolCalls) reply.toolCalls = toolCalls
+    const grounding = sanitizeImportedGrounding(source.grounding)
+    if (grounding) reply.grounding = grounding
+    const usage = sanitizeImportedUsage(source.usage)
+    if (usage) reply.usage = usage
+    if (source.structured === true) reply.structured = true
+    if (typeof source.thoughts === "string") reply.thoughts = source.thoughts
+    if (typeof source.model === "string") reply.model = source.model
+    return reply
+}
+
+/** Rebuilds one imported message from known fields, or null when it's invalid. */
+function sanitizeImportedMessage(source: any): Message | null {
+    if (!isPlainObject(source)) return null
+    const { role } = source
+    if (role === "system" || role === "user") {
+        const content = sanitizeImportedContent(source.content)
+        if (content === null) return null
+        const message: Message = { role, content }
+        if (role === "system") return message
+        if (source.blocked === true) message.blocked = true
+        const branches = Array.isArray(source.branches)
+            ? source.branches.map((branch) => {
+                  const branchContent = sanitizeImportedContent(branch?.content)
+                  const branchMessages = Array.isArray(branch?.messages)
+                      ? branch.messages.map(sanitizeImportedMessage)
+                      : null
+                  return branchContent !== null &&
+                      branchMessages &&
+                      branchMessages.every(Boolean)
+                      ? { content: branchContent, messages: branchMessages }
+                      : null
+              })
+            : []
+        const activeBranch = importedIndex(source.activeBranch, branches.length)
+        if (
+            branches.length > 0 &&
+            branches.every(Boolean) &&
+            activeBranch !== undefined
+        ) {
+            message.branches = branches
+            message.activeBranch = activeBranch
+        }
+        return message
+    }
+    if (role !== "assistant") return null
+    const reply = sanitizeImportedReply(source)
+    if (!reply) return null
+    const message: Message = { role, ...reply }
+    const variants = Array.isArray(source.variants)
+        ? source.variants.map(sanitizeImportedReply)
+        : []
+    const activeVariant = importedIndex(source.activeVariant, variants.length)
+    if (
+        variants.length > 0 &&
+        variants.every(Boolean) &&
+        activeVariant !== undefined
+    ) {
+        message.variants = variants
+        message.activeVariant = activeVariant
+    }
+    return message
+}
+
+/**
+ * Reads an exported JSON file back. Accepts the export wrapper or a bare
+ * `Message` array; attachments that can't be restored become notes.
+ */
+function parseConversationImport(
+    text: string
+): Pick<StoredConversation, "messages" | "suggestions"> {
+    let data: any
+    try {
+        data = JSON.parse(text)
+    } catch (e) {
+        throw new Error("That file isn't valid JSON.")
+    }
+    if (!Array.isArray(data)) {
+        if (data?.format !== CONVERSATION_EXPORT_FORMAT) {
+            throw new Error("That file isn't an exported chat.")
+        }
+        if (data.version > CONVERSATION_EXPORT_VERSION) {
+            throw new Error("That chat was exported by a newer version.")
+        }
+    }
+    const source = Array.isArray(data) ? data : data.messages
+    const messages: Message[] | null = Array.isArray(source)
+        ? source.map(sanitizeImportedMessage)
+        : null
+    if (
+        !messages ||
+        !messages.every(Boolean) ||
+        !messages.some((m) => m.role === "user")
+    ) {
+        throw new Error("That file has no messages to import.")
+    }
+    const suggestions = Array.isArray(data.suggestions)
+        ? data.suggestions.filter((s) => typeof s === "string")
+        : []
+    return {
+        messages: mapStoredContents(exportableMessages(messages), (content) =>
+            hydrateContent(content, "import", new Map())
+        ),
+        suggestions,
+    }
+}
+
+// -----------------------------------------------------------------------------
+// Share Links
+// -----------------------------------------------------------------------------
+// A read-only copy of the transcript travels in the URL fragment, so no
+// server sees it: text only, as `[role, text, structured?]` tuples,
+// deflate-raw compressed and base64url encoded after `#chat=`.
+
+interface SharedTranscript {
+    v: number
+    m: Array<["u" | "a", string] | ["u" | "a", string, 1]>
+}
+
+function canShareLinks(): boolean {
+    return (
+        typeof CompressionStream !== "undefined" &&
+        typeof DecompressionStream !== "undefined"
+    )
+}
+
+async function pipeBytes(
+    bytes: Uint8Array,
+    transform: CompressionStream | DecompressionStream
+): Promise<Uint8Array> {
+    const stream = new Blob([bytes]).stream().pipeThrough(transform)
+    return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+function bytesToBase64Url(bytes: Uint8Array): string {
+    let binary = ""
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+    }
+    return btoa(binary)
+        .replace(/\+/g, "-")
+        .replace(/\//g, "_")
+        .replace(/=+$/, "")
+}
+
+function base64UrlToBytes(text: string): Uint8Array {
+    const base64 = text.replace(/-/g, "+").replace(/_/g, "/")
+    const binary = atob(base64 + "=".repeat((4 - (base64.length % 4)) % 4))
+    return Uint8Array.from(binary, (c) => c.charCodeAt(0))
+}
+
+/** The `#chat=…` fragment for the visible transcript; attachments become notes. */
+async function encodeShareFragment(messages: Message[]): Promise<string> {
+    const transcript: SharedTranscript = {
+        v: SHARE_LINK_VERSION,
+        m: exportableMessages(messages).map((message) => {
+            const notes = Array.isArray(message.content)
+                ? message.content
+                      .filter(isAttachmentPart)
+                      .map((part) => `[Attachment: ${attachmentLabel(part)}]`)
+                : []
+            const text = [getMessageText(message.content), ...notes]
+                .filter(Boolean)
+                .join("\n\n")
+            const role = message.role === "user" ? "u" : "a"
+            return message.structured ? [role, text, 1] : [role, text]
+        }),
+    }
+    const json = new TextEncoder().encode(JSON.stringify(transcript))
+    const compressed = await pipeBytes(
+        json,
+        new CompressionStream("deflate-raw")
+    )
+    return SHARE_HASH_PREFIX + bytesToBase64Url(compressed)
+}
+
+/** Messages from a `#chat=…` fragment, or null if it isn't a valid one. */
+async function decodeShareFragment(hash: string): Promise<Message[] | null> {
+    if (!hash.startsWith(SHARE_HASH_PREFIX) || !canShareLinks()) return null
+    try {
+        const json = await pipeBytes(
+            base64UrlToBytes(hash.slice(SHARE_HASH_PREFIX.length)),
+            new DecompressionStream("deflate-raw")
+        )
+        const transcript = JSON.parse(new TextDecoder().decode(json))
+        if (transcript?.v !== SHARE_LINK_VERSION) return null
+        if (!Array.isArray(transcript.m) || transcript.m.length === 0) {
+            return null
+        }
+        return transcript.m
+            .filter(
+                (entry) =>
+                    Array.isArray(entry) &&
+                    (entry[0] === "u" || entry[0] === "a") &&
+                    typeof entry[1] === "string"
+            )
+            .map(([role, text, structured]) => ({
+                role: role === "u" ? "user" : "assistant",
+                content: text,
+                ...(structured === 1 ? { structured: true } : {}),
+            }))
+    } catch (e) {
+        console.error("Invalid share link", e)
+        return null
+    }
+}
+
+/** Drops a `#chat=…` fragment from the address bar without reloading. */
+function clearShareFragment() {
+    if (typeof window === "undefined") return
+    if (!window.location.hash.startsWith(SHARE_HASH_PREFIX)) return
+    window.history.replaceState(
+        window.history.state,
+        "",
+        window.location.pathname + window.location.search
+    )
+}
+
+// -----------------------------------------------------------------------------
+// Main ChatOverlay Component
+// -----------------------------------------------------------------------------
+export default function ChatOverlay(props: ChatOverlayProps) {
+    const {
+        geminiApiKey,
+        proxyBaseUrl = "",
+        proxyHeaders = [],
+        provider = "gemini",
+        openAiBaseUrl = "",
+        openAiApiKey = "",
+        mockMode = false,
+        mockScenario = "echo",
+        mockScript = "",
+        mockSeed = 1,
+        historySummaryThreshold = MAX_HISTORY_MESSAGES,
+        historyTokenBudget = DEFAULT_HISTORY_TOKEN_BUDGET,
+        summaryModel = "",
+        persistConversation = false,
+        retentionDays = DEFAULT_RETENTION_DAYS,
+        enableThreads = false,
+        enableExport = false,
+        enableShareLinks = false,
+        archiveOnNewChat = false,
+        enableSearch = false,
+        model,
+        fallbackModels = [],
+        enableModelPicker = false,
+        modelOptions = [],
+        maxRetries = 2,
+        connectTimeout = DEFAULT_CONNECT_TIMEOUT_S,
+        streamIdleTimeout = DEFAULT_STREAM_IDLE_TIMEOUT_S,
+        totalTimeout = DEFAULT_TOTAL_TIMEOUT_S,
+        tools = [],
+        toolDeclarations = "",
+        toolHandlers = {},
+        maxToolSteps = DEFAULT_MAX_TOOL_STEPS,
+        enableGoogleSearch = false,
+        responseFormat = "text",
+        responseSchema = "",
+        structuredDisplay = "auto",
+        showThinking = true,
+        dailyLimitMode = "messages",
+        dailyTokenLimit = DEFAULT_DAILY_TOKEN_LIMIT,
+        showUsageReadout = false,
+        enableContextCaching = false,
+        pinnedKnowledge = "",
+        cacheTtlSeconds = DEFAULT_CACHE_TTL_S,
+        safetySettings,
+        generationSettings,
+        reasoningEffort,
+        systemPrompt,
+        welcomeMessage = "Hi, how can I help?",
+        placeholder,
+        inputBarBackground,
+        expandedInputAreaBackground,
+        chatAreaBackground,
+        userMessageBackgroundColor,
+        shadow,
+        iconColor,
+        sendIconColor,
+        sendBgColor,
+        textColor,
+        placeholderTextColor,
+        linkColor = "#007AFF",
+        sendIconOverrideUrl,
+        loadingIconOverrideUrl,
+        textFont = DEFAULT_FONT_INFO,
+        style,
+        rotateSuggestions = true,
+        defaultSuggestions = [],
+        suggestionRotateInterval = 3,
+        enableAiSuggestions = true,
+        universalBorderRadius = 24,
+        enableScrollReveal = true,
+        enableGeminiLive: enableGeminiLiveProp = true,
+        interruptionThreshold = 0.01,
+        allowImages = true,
+        allowVideos = false,
+        allowDocuments = false,
+    } = props
+
+    const baseFontSize =
+        typeof textFont.fontSize === "number"
+            ? textFont.fontSize
+            : parseFloat(textFont.fontSize) || 16
+    const tableFontSize = Math.max(10, baseFontSize - 1) + "px"
+
+    const markdownStyles = `
+        .chat-markdown-table {
+            width: 100%;
+            border-collapse: collapse;
+            margin: 1em 0;
+            font-size: ${tableFontSize};
+        }
+        .chat-markdown-table th,
+        .chat-markdown-table td {
+            border-bottom: 1px solid ${props.iconColor ? props.iconColor.replace(")", ", 0.1)").replace("rgb", "rgba") : "rgba(0,0,0,0.1)"};
+            padding: 8px 12px;
+            text-align: left;
+            color: ${props.textColor};
+        }
+        .chat-markdown-table th {
+            font-weight: 600;
+        }
+        .chat-markdown-code-block {
+            background: rgba(0,0,0,0.03);
+            border: 1px solid rgba(0,0,0,0.06);
+            color: ${props.textColor};
+            padding: 12px;
+            border-radius: 8px;
+            overflow-x: auto;
+            font-family: 'Menlo', 'Monaco', 'Courier New', monospace;
+            font-size: 0.85em;
+            margin: 1em 0;
+            white-space: pre;
+        }
+        .chat-markdown-inline-code {
+            background: rgba(0,0,0,0.05);
+            padding: 2px 4px;
+            border-radius: 4px;
+            font-family: 'Menlo', 'Monaco', 'Courier New', monospace;
+            font-size: 0.9em;
+            color: ${props.linkColor};
+        }
+        .chat-markdown-blockquote {
+            border-left: 4px solid ${props.iconColor || "rgba(0,0,0,0.2)"};
+            padding-left: 16px;
+            margin: 1em 0;
+            opacity: 0.8;
+            font-style: italic;
+        }
+        .chat-search-match {
+            background: rgba(255, 214, 0, 0.4);
+            color: inherit;
+            border-radius: 2px;
+        }
+        .chat-search-match[data-active] {
+            background: rgba(255, 150, 0, 0.75);
+        }
+        .chat-markdown-hr {
+            border: 0;
+            height: 1px;
+            background: ${props.iconColor ? props.iconColor.replace(")", ", 0.1)").replace("rgb", "rgba") : "rgba(0,0,0,0.1)"};
+            margin: 1.5em 0;
+        }
+        .chat-overlay-collapsed-input::placeholder { color: transparent; opacity: 0; }
+        .chat-overlay-collapsed-input::-webkit-input-placeholder { color: transparent; opacity: 0; }
+        .chat-overlay-collapsed-input::-moz-placeholder { color: transparent; opacity: 0; }
+    `
+
+    const placeholderStyleTagContent = `
+      .chat-overlay-collapsed-input::placeholder {
+          color: transparent;
+          opacity: 0;
+      }
+      .chat-overlay-collapsed-input::-webkit-input-placeholder {
+          color: transparent;
+          opacity: 0;
+      }
+      .chat-overlay-collapsed-input::-moz-placeholder {
+          color: transparent;
+          opacity: 0;
+      }
+      .chat-overlay-collapsed-input:-ms-input-placeholder {
           color: transparent;
           opacity: 0;
       }
@@ -886,6 +4780,92 @@ export default function ChatOverlay(props: ChatOverlayProps) {
 
     const isCanvas = RenderTarget.current() === RenderTarget.canvas
 
+    // The mock speaks the Gemini wire format, so it replaces the provider,
+    // key and proxy settings while it is on
+    const transport: GeminiTransport = useMemo(
+        () =>
+            mockMode
+                ? createMockTransport({
+                      scenario: mockScenario,
+                      script: parseMockScript(mockScript),
+                      seed: mockSeed,
+                  })
+                : NETWORK_TRANSPORT,
+        [mockMode, mockScenario, mockScript, mockSeed]
+    )
+    const geminiEndpoint: GeminiEndpoint = useMemo(
+        () =>
+            mockMode
+                ? { apiKey: MOCK_API_KEY }
+                : { apiKey: geminiApiKey, proxyBaseUrl, proxyHeaders },
+        [mockMode, geminiApiKey, proxyBaseUrl, JSON.stringify(proxyHeaders)]
+    )
+    const canReachGemini = hasGeminiAccess(geminiEndpoint)
+
+    const chatProvider: ChatProvider = useMemo(
+        () =>
+            provider === "openai" && !mockMode
+                ? createOpenAiCompatibleProvider({
+                      baseUrl: openAiBaseUrl,
+                      apiKey: openAiApiKey,
+                  })
+                : createGeminiProvider(geminiEndpoint),
+        [provider, mockMode, openAiBaseUrl, openAiApiKey, geminiEndpoint]
+    )
+    // Declarations from the property control and from code are merged by
+    // name; code-level tools win so they can attach a handler
+    const { toolList, toolHandlerMap } = useMemo(() => {
+        const byName = new Map<string, ToolDeclaration>()
+        for (const decl of parseToolDeclarations(toolDeclarations)) {
+            byName.set(decl.name, decl)
+        }
+        const handlerMap: Record<string, ToolHandler> = { ...toolHandlers }
+        for (const tool of tools || []) {
+            if (!tool?.name) continue
+            const { handler, ...decl } = tool
+            byName.set(tool.name, decl)
+            if (handler) handlerMap[tool.name] = handler
+        }
+        return { toolList: [...byName.values()], toolHandlerMap: handlerMap }
+    }, [tools, toolDeclarations, toolHandlers])
+    const generationParams = useMemo(
+        () => toGenerationParams(generationSettings),
+        [generationSettings]
+    )
+    const isStructuredMode = responseFormat === "json"
+    const parsedResponseSchema = useMemo(
+        () => parseResponseSchema(responseSchema),
+        [responseSchema]
+    )
+    const pickerOptions = useMemo(
+        () =>
+            enableModelPicker
+                ? (modelOptions || []).filter((option) => option?.model?.trim())
+                : [],
+        [enableModelPicker, modelOptions]
+    )
+    // Persisted per visitor; ignored once it drops off the allow-list
+    const [selectedModel, setSelectedModel] = useState(() => {
+        try {
+            return window.localStorage.getItem(SELECTED_MODEL_STORAGE_KEY) || ""
+        } catch (e) {
+            return ""
+        }
+    })
+    const activeModel = resolvePickedModel(pickerOptions, selectedModel, model)
+
+    const handleSelectModel = (value: string) => {
+        setSelectedModel(value)
+        try {
+            window.localStorage.setItem(SELECTED_MODEL_STORAGE_KEY, value)
+        } catch (e) {
+            // Ignore localStorage errors
+        }
+    }
+    // Live calls use the Gemini Live API directly, whatever the text provider
+    const enableGeminiLive =
+        enableGeminiLiveProp && (provider === "gemini" || mockMode)
+
     const [copiedMessageIndex, setCopiedMessageIndex] = useState<number | null>(
         null
     )
@@ -911,13 +4891,16 @@ export default function ChatOverlay(props: ChatOverlayProps) {
     async function uploadFileToGemini(
         file: File
     ): Promise<{ uri: string; name?: string; mimeType?: string } | null> {
+        if (!canReachGemini) return null
         try {
-            const endpoint = `https://generativelanguage.googleapis.com/upload/v1beta/files?key=${geminiApiKey}&uploadType=media`
-            const res = await fetch(endpoint, {
+            const endpoint = buildGeminiUrl(geminiEndpoint, "/upload/v1beta/files", {
+                uploadType: "media",
+            })
+            const res = await transport.fetch(endpoint, {
                 method: "POST",
-                headers: {
+                headers: buildGeminiHeaders(geminiEndpoint, {
                     "Content-Type": file.type || "application/octet-stream",
-                },
+                }),
                 body: file,
             })
             if (!res.ok) return null
@@ -980,7 +4963,8 @@ export default function ChatOverlay(props: ChatOverlayProps) {
 
     const showAttachmentButton = allowImages || allowVideos || allowDocuments
     const [expanded, setExpanded] = useState<boolean>(false)
-    const [messages, setMessages] = useState<Message[]>(() => {
+    // System prompt and welcome message: how every new chat starts
+    const createInitialMessages = (): Message[] => {
         const initialMessages: Message[] = [
             {
                 role: "system",
@@ -994,7 +4978,8 @@ export default function ChatOverlay(props: ChatOverlayProps) {
             })
         }
         return initialMessages
-    })
+    }
+    const [messages, setMessages] = useState<Message[]>(createInitialMessages)
     const [isLoading, setIsLoading] = useState<boolean>(false)
     
     // Rotating suggestions logic for collapsed placeholder
@@ -1032,7 +5017,45 @@ export default function ChatOverlay(props: ChatOverlayProps) {
         ? rotationCycle[currentSuggestionIndex]
         : placeholder
     const [error, setError] = useState<string>("")
+    const [retryState, setRetryState] = useState<RetryState | null>(null)
+    // Conversation of the last failed request, offered back via "Try again"
+    const [retryableConversation, setRetryableConversation] = useState<
+        Message[] | null
+    >(null)
+    // Local file resolver of the latest request, so "Try again" can still
+    // inline or upload the attachment the failed turn referenced
+    const retryResolveLocalFileRef = useRef<
+        ((uri: string) => Promise<ResolvedFile | null>) | undefined
+    >(undefined)
+    // Local file resolver of each sent user turn, so regenerating its answer
+    // still inlines or uploads the attachment that turn referenced
+    const localFileResolversRef = useRef(
+        new WeakMap<Message, (uri: string) => Promise<ResolvedFile | null>>()
+    )
+    // Text of a blocked message, offered back via "Rephrase"
+    const [blockedDraft, setBlockedDraft] = useState<string | null>(null)
+    // Assistant message being re-rolled; its answer streams in place and a
+    // failed attempt is retried as a regeneration too
+    const [regeneratingMessage, setRegeneratingMessage] =
+        useState<Message | null>(null)
+    // User turn open for editing and its draft text
+    const [editingMessage, setEditingMessage] = useState<Message | null>(null)
+    const [editDraft, setEditDraft] = useState("")
     const [streamed, setStreamed] = useState<string>("")
+    // Token totals for the usage readout, refreshed after every request
+    const [usageTotals, setUsageTotals] = useState<{
+        session: TokenUsage
+        today: DailyUsage
+    }>(() => ({ session: readSessionUsage(), today: readDailyUsage() }))
+    const recordUsage = useCallback((usage: TokenUsage) => {
+        setUsageTotals(recordTokenUsage(usage))
+    }, [])
+    // Thought summaries of the reply that is streaming
+    const [streamedThoughts, setStreamedThoughts] = useState<string>("")
+    // Tool calls made so far by the reply that is streaming
+    const [streamedToolCalls, setStreamedToolCalls] = useState<
+        ToolCallRecord[]
+    >([])
     const [imageFile, setImageFile] = useState<File | null>(null)
     const [imagePreviewUrl, setImagePreviewUrl] = useState<string>("")
     const [attachmentPreview, setAttachmentPreview] = useState<{
@@ -1067,6 +5090,61 @@ export default function ChatOverlay(props: ChatOverlayProps) {
     const [aiGeneratedSuggestions, setAiGeneratedSuggestions] = useState<
         string[]
     >([])
+    // False until the stored conversation has been restored (or found
+    // missing), so the welcome-only initial state never overwrites it
+    const [persistenceReady, setPersistenceReady] = useState(false)
+    // Messages and suggestions as last loaded or saved, so opening a thread
+    // isn't mistaken for a change to it
+    const lastPersistedRef = useRef<{
+        messages: Message[]
+        suggestions: string[]
+    } | null>(null)
+    const threadsEnabled = persistConversation && enableThreads
+    // Stored conversation shown in the overlay; remembered across reloads
+    const [threadId, setThreadId] = useState(() => {
+        if (!persistConversation) return DEFAULT_CONVERSATION_ID
+        try {
+            return (
+                window.localStorage.getItem(ACTIVE_THREAD_STORAGE_KEY) ||
+                DEFAULT_CONVERSATION_ID
+            )
+        } catch (e) {
+            return DEFAULT_CONVERSATION_ID
+        }
+    })
+    const [threads, setThreads] = useState<ConversationSummary[]>([])
+    const [threadSheetOpen, setThreadSheetOpen] = useState(false) // mobile
+    const [renamingThreadId, setRenamingThreadId] = useState<string | null>(
+        null
+    )
+    const [renameDraft, setRenameDraft] = useState("")
+    // Thread whose delete button was pressed once and waits for a second press
+    const [confirmDeleteThreadId, setConfirmDeleteThreadId] = useState<
+        string | null
+    >(null)
+    const [exportMenuOpen, setExportMenuOpen] = useState(false)
+    const importInputRef = useRef<HTMLInputElement | null>(null)
+    // Transcript opened from a `#chat=` link; shown read-only until continued
+    const [sharedReplay, setSharedReplay] = useState<Message[] | null>(null)
+    // "Continue this chat" was pressed once and would replace the visitor's chat
+    const [confirmReplaceChat, setConfirmReplaceChat] = useState(false)
+    const [shareNotice, setShareNotice] = useState("")
+    const shareNoticeTimeoutRef = useRef<any>(null)
+    useEffect(() => {
+        return () => {
+            if (shareNoticeTimeoutRef.current) {
+                clearTimeout(shareNoticeTimeoutRef.current)
+            }
+        }
+    }, [])
+    const shareLinksEnabled = enableShareLinks && canShareLinks()
+    const showChatMenu = (enableExport || shareLinksEnabled) && !sharedReplay
+    // In-transcript search; matches are counted from the rendered <mark>s
+    const [searchOpen, setSearchOpen] = useState(false)
+    const [searchQuery, setSearchQuery] = useState("")
+    const [searchMatchCount, setSearchMatchCount] = useState(0)
+    const [activeSearchMatch, setActiveSearchMatch] = useState(0)
+    const highlightQuery = enableSearch && searchOpen ? searchQuery.trim() : ""
 
     const abortControllerRef = useRef<AbortController | null>(null)
     const inputBarRef = useRef<HTMLDivElement | null>(null)
@@ -1177,10 +5255,15 @@ export default function ChatOverlay(props: ChatOverlayProps) {
         isUserMessageInProgressRef.current = false
     }, [stopAllAudio])
 
+    // Bumped whenever another conversation is shown, so late suggestions
+    // for the previous one are dropped
+    const conversationEpochRef = useRef(0)
+
     const fetchAiSuggestions = useCallback(
         async (lastAiMessageContent: string) => {
+            const epoch = conversationEpochRef.current
             if (
-                !geminiApiKey ||
+                !chatProvider.isConfigured ||
                 !enableAiSuggestions ||
                 !lastAiMessageContent.trim()
             ) {
@@ -1192,24 +5275,26 @@ export default function ChatOverlay(props: ChatOverlayProps) {
             const suggestionPrompt = `Based on the last AI message:\n\n"${lastAiMessageContent}"\n\nSuggest three helpful, short (max 5 words) follow-up questions that make sense at a glance and the user might ask or say next. Present them as a JSON array of strings. For example: ["Tell me more.", "How does it work?", "What is that?"]`
 
             try {
-                const response = await fetch(
-                    `https://generativelanguage.googleapis.com/v1beta/models/${SUGGESTION_MODEL_ID}:generateContent?key=${geminiApiKey}`,
+                const request = await chatProvider.buildRequest(
                     {
-                        method: "POST",
-                        headers: { "Content-Type": "application/json" },
-                        body: JSON.stringify({
-                            contents: [{ parts: [{ text: suggestionPrompt }] }],
-                            generationConfig: {
-                                // Default temperature 1.0 recommended for Gemini 3
-                                maxOutputTokens: 100,
-                                stopSequences: ["\n\n"],
-                                thinkingConfig: {
-                                    thinkingBudget: 0,
-                                },
-                            },
-                        }),
-                    }
+                        model:
+                            chatProvider.id === "gemini"
+                                ? SUGGESTION_MODEL_ID
+                                : activeModel,
+                        history: [{ role: "user", content: suggestionPrompt }],
+                        reasoningEffort: "none",
+                        // Default temperature 1.0 recommended for Gemini 3
+                        maxOutputTokens: 100,
+                        stopSequences: ["\n\n"],
+                    },
+                    { stream: false }
                 )
+                const response = await transport.fetch(request.url, {
+                    method: "POST",
+                    headers: request.headers,
+                    body: JSON.stringify(request.body),
+                })
+                if (conversationEpochRef.current !== epoch) return
 
                 if (!response.ok) {
                     setAiGeneratedSuggestions([])
@@ -1217,8 +5302,10 @@ export default function ChatOverlay(props: ChatOverlayProps) {
                 }
 
                 const data = await response.json()
-                const responseText =
-                    data.candidates?.[0]?.content?.parts?.[0]?.text || ""
+                if (conversationEpochRef.current !== epoch) return
+                const usage = chatProvider.parseUsage(data)
+                if (usage) recordUsage(usage)
+                const responseText = chatProvider.parseResponseText(data)
 
                 if (responseText) {
                     try {
@@ -1249,21 +5336,23 @@ export default function ChatOverlay(props: ChatOverlayProps) {
                     setAiGeneratedSuggestions([])
                 }
             } catch (e) {
-                setAiGeneratedSuggestions([])
+                if (conversationEpochRef.current === epoch) {
+                    setAiGeneratedSuggestions([])
+                }
             }
         },
-        [geminiApiKey, enableAiSuggestions]
+        [chatProvider, transport, activeModel, enableAiSuggestions, recordUsage]
     )
 
     const startLiveSession = useCallback(async () => {
-        if (!geminiApiKey) return
+        if (!canReachGemini) return
 
         // UPDATED: Use the latest native audio preview model for genuine live experience
         const liveModel = "models/gemini-2.5-flash-native-audio-preview-12-2025"
 
         try {
-            const url = `wss://generativelanguage.googleapis.com/ws/google.ai.generativelanguage.v1alpha.GenerativeService.BidiGenerateContent?key=${geminiApiKey}`
-            const ws = new WebSocket(url)
+            const url = buildGeminiWebSocketUrl(geminiEndpoint, GEMINI_LIVE_PATH)
+            const ws = transport.createWebSocket(url)
             liveClientRef.current = ws
 
             ws.onopen = async () => {
@@ -1620,7 +5709,7 @@ export default function ChatOverlay(props: ChatOverlayProps) {
             console.error("Live Init Error", e)
             stopLiveSession()
         }
-    }, [geminiApiKey, model, expanded, stopLiveSession, systemPrompt, interruptionThreshold, isLiveGenerating, userIsSpeaking, stopAllAudio, fetchAiSuggestions, enableAiSuggestions])
+    }, [geminiEndpoint, transport, canReachGemini, model, expanded, stopLiveSession, systemPrompt, interruptionThreshold, isLiveGenerating, userIsSpeaking, stopAllAudio, fetchAiSuggestions, enableAiSuggestions])
 
     const handleToggleLive = (e: React.MouseEvent) => {
         e.stopPropagation()
@@ -1760,6 +5849,13 @@ export default function ChatOverlay(props: ChatOverlayProps) {
             if (utteranceRef.current) utteranceRef.current = null
             handleStopGeneration()
             initialFocusPendingRef.current = true
+            setSearchOpen(false)
+            setSearchQuery("")
+            // Closing a shared replay returns to the visitor's own chat
+            if (enableShareLinks) {
+                setSharedReplay(null)
+                clearShareFragment()
+            }
         }
 
         // Check for browser support
@@ -1774,7 +5870,7 @@ export default function ChatOverlay(props: ChatOverlayProps) {
             // Fallback for browsers without support
             startTransition(() => doCollapse())
         }
-    }, [handleStopGeneration])
+    }, [handleStopGeneration, enableShareLinks])
 
     const handleExpand = useCallback(() => {
         // Calculate offset logic...
@@ -1799,6 +5895,26 @@ export default function ChatOverlay(props: ChatOverlayProps) {
         }
     }, [handleStopGeneration])
 
+    // A `#chat=` link opens expanded on the shared transcript, read-only
+    useEffect(() => {
+        if (!enableShareLinks || isCanvas || typeof window === "undefined") {
+            return
+        }
+        let cancelled = false
+        const openSharedLink = async () => {
+            const shared = await decodeShareFragment(window.location.hash)
+            if (cancelled || !shared) return
+            setSharedReplay(shared)
+            handleExpand()
+        }
+        openSharedLink()
+        window.addEventListener("hashchange", openSharedLink)
+        return () => {
+            cancelled = true
+            window.removeEventListener("hashchange", openSharedLink)
+        }
+    }, [enableShareLinks, isCanvas])
+
     useEffect(() => {
         const checkViewport = () => {
             if (typeof window !== "undefined") {
@@ -1932,6 +6048,112 @@ export default function ChatOverlay(props: ChatOverlayProps) {
         })
     }, [systemPrompt, welcomeMessage])
 
+    // Restore the stored conversation once, after clearing expired ones
+    useEffect(() => {
+        if (!persistConversation || isCanvas) return
+        let cancelled = false
+        const restore = async () => {
+            try {
+                await deleteExpiredConversations(retentionDays)
+                const [stored, storedThreads] = await Promise.all([
+                    loadConversation(threadId),
+                    threadsEnabled ? listConversations() : [],
+                ])
+                if (cancelled) return
+                setThreads(storedThreads)
+                if (!stored) return
+                const restored = [
+                    createInitialMessages()[0],
+                    ...stored.messages.filter((m) => m.role !== "system"),
+                ]
+                lastPersistedRef.current = {
+                    messages: restored,
+                    suggestions: stored.suggestions,
+                }
+                startTransition(() => {
+                    // The visitor may already have started a new chat
+                    setMessages((prev) =>
+                        prev.some((m) => m.role === "user") ? prev : restored
+                    )
+                    setAiGeneratedSuggestions((prev) =>
+                        prev.length > 0 ? prev : stored.suggestions
+                    )
+                })
+            } catch (e) {
+                console.error("Failed to restore conversation", e)
+            } finally {
+                if (!cancelled) setPersistenceReady(true)
+            }
+        }
+        restore()
+        return () => {
+            cancelled = true
+        }
+    }, [persistConversation, isCanvas])
+
+    const rememberActiveThread = (id: string) => {
+        if (!persistConversation) return
+        try {
+            window.localStorage.setItem(ACTIVE_THREAD_STORAGE_KEY, id)
+        } catch (e) {
+            // Ignore localStorage errors
+        }
+    }
+
+    /** Saves the open thread if it changed and moves it to the top of the list. */
+    const persistThread = async () => {
+        if (!persistConversation || isCanvas || !persistenceReady) return
+        if (!messages.some((m) => m.role === "user")) return
+        const persisted = lastPersistedRef.current
+        if (
+            persisted?.messages === messages &&
+            persisted.suggestions === aiGeneratedSuggestions
+        ) {
+            return
+        }
+        lastPersistedRef.current = {
+            messages,
+            suggestions: aiGeneratedSuggestions,
+        }
+        try {
+            const stored = messages.filter((m) => m.role !== "system")
+            let record = await saveConversation(
+                threadId,
+                stored,
+                aiGeneratedSuggestions
+            )
+            if (!record) {
+                // A newer build owns this id; keep its record and carry on
+                // under a new one
+                const id = newStorageId()
+                record = await saveConversation(id, stored, aiGeneratedSuggestions)
+                if (!record) return
+                setThreadId(id)
+                rememberActiveThread(id)
+            }
+            const summary = summarizeConversation(record)
+            setThreads((prev) => [
+                summary,
+                ...prev.filter((thread) => thread.id !== summary.id),
+            ])
+        } catch (e) {
+            lastPersistedRef.current = null
+            console.error("Failed to save conversation", e)
+        }
+    }
+
+    // Save after changes settle; chats without a user message aren't kept
+    useEffect(() => {
+        const timeoutId = setTimeout(persistThread, PERSIST_DEBOUNCE_MS)
+        return () => clearTimeout(timeoutId)
+    }, [
+        messages,
+        aiGeneratedSuggestions,
+        persistConversation,
+        persistenceReady,
+        isCanvas,
+    ])
+
     useEffect(() => {
         const populate = () => {
             if (typeof window !== "undefined" && window.speechSynthesis) {
@@ -2026,47 +6248,76 @@ export default function ChatOverlay(props: ChatOverlayProps) {
         }
     }, [expanded, handleCollapse])
 
-    async function sendMessage(overrideText?: string) {
-        if (isLoading) return
-
-        const textToSend = overrideText || input
-        if (textToSend.length > MAX_INPUT_LENGTH) {
-            setError(`Message too long (max ${MAX_INPUT_LENGTH} characters).`)
-            return
+    // Cancels any in-flight request and resets the per-request UI state
+    function startRequest(regenerateTarget?: Message): AbortController {
+        if (abortControllerRef.current) {
+            abortControllerRef.current.abort()
         }
+        const controller = new AbortController()
+        abortControllerRef.current = controller
 
-        // Daily Limit Check
-        if (typeof window !== "undefined" && window.localStorage) {
-            try {
-                const today = new Date().toISOString().split("T")[0]
-                const stored = localStorage.getItem("gemini-daily-usage")
-                let usage = { date: today, count: 0 }
-                
-                if (stored) {
-                    const parsed = JSON.parse(stored)
-                    if (parsed.date === today) {
-                        usage = parsed
-                    }
-                }
-
-                if (usage.count >= DAILY_MESSAGE_LIMIT) {
-                    setError("Daily message limit reached. Please try again at 12AM.")
-                    return
-                }
+        setIsLoading(true)
+        setError("")
+        setRetryState(null)
+        setRetryableConversation(null)
+        setBlockedDraft(null)
+        setRegeneratingMessage(regenerateTarget || null)
+        setStreamed("")
+        setStreamedThoughts("")
+        setStreamedToolCalls([])
+        return controller
+    }
 
-                // Increment and save (optimistically)
-                usage.count++
-                localStorage.setItem("gemini-daily-usage", JSON.stringify(usage))
-            } catch (e) {
-                // Ignore localStorage errors
-            }
+    // Counts one sent message against the visitor's daily quota. Returns
+    // false, with the error shown, once the quota is used up.
+    function consumeDailyQuota(): boolean {
+        if (typeof window === "undefined" || !window.localStorage) return true
+        const usage = readDailyUsage()
+        // Token usage is only known after a reply, so the budget is
+        // checked before sending and one reply may go past it
+        if (
+            dailyLimitMode === "tokens" &&
+            totalTokens(usage.tokens) >= Math.max(1, dailyTokenLimit)
+        ) {
+            setError("Daily usage limit reached. Please try again at 12AM.")
+            return false
         }
+        if (dailyLimitMode !== "tokens" && usage.count >= DAILY_MESSAGE_LIMIT) {
+            setError("Daily message limit reached. Please try again at 12AM.")
+            return false
+        }
+
+        // Increment and save (optimistically)
+        usage.count++
+        writeDailyUsage(usage)
+        setUsageTotals((prev) => ({ ...prev, today: usage }))
+        return true
+    }
 
+    // Gate for every path that starts a model request (send, edit,
+    // regenerate, retry): drops requests faster than the rate limit, then
+    // counts the request against the daily quota
+    function admitModelRequest(): boolean {
         const now = Date.now()
         if (now - lastMessageTimeRef.current < MESSAGE_RATE_LIMIT_MS) {
-            return
+            return false
         }
+        if (!consumeDailyQuota()) return false
         lastMessageTimeRef.current = now
+        return true
+    }
+
+    async function sendMessage(overrideText?: string) {
+        if (isLoading) return
+        setRetryableConversation(null)
+
+        const textToSend = overrideText || input
+        if (textToSend.length > MAX_INPUT_LENGTH) {
+            setError(`Message too long (max ${MAX_INPUT_LENGTH} characters).`)
+            return
+        }
+
+        if (!admitModelRequest()) return
 
         setAiGeneratedSuggestions([])
 
@@ -2081,22 +6332,14 @@ export default function ChatOverlay(props: ChatOverlayProps) {
                 !imageFileToSend &&
                 !attachmentFileToSend &&
                 !recordedAudioBlobToSend) ||
-            !geminiApiKey
+            !chatProvider.isConfigured
         ) {
-            if (!geminiApiKey) setError("Gemini API key is required.")
+            if (!chatProvider.isConfigured)
+                setError(chatProvider.missingConfigMessage)
             return
         }
 
-        if (abortControllerRef.current) {
-            abortControllerRef.current.abort()
-        }
-
-        abortControllerRef.current = new AbortController()
-        const signal = abortControllerRef.current.signal
-
-        setIsLoading(true)
-        setError("")
-        setStreamed("")
+        startRequest()
 
         let userContentForState: Message["content"]
 
@@ -2272,6 +6515,7 @@ export default function ChatOverlay(props: ChatOverlayProps) {
                                                 uploaded.mimeType ||
                                                 attachmentFileToSend.type,
                                             name: uploaded.name,
+                                            uploadedAt: Date.now(),
                                         },
                                     }
                                 }
@@ -2325,6 +6569,7 @@ export default function ChatOverlay(props: ChatOverlayProps) {
                                         file: {
                                             uri: uploaded.uri,
                                             mimeType: "audio/webm",
+                                            uploadedAt: Date.now(),
                                         },
                                     }
                                 }
@@ -2353,379 +6598,1134 @@ export default function ChatOverlay(props: ChatOverlayProps) {
             })
         }
 
-        const systemInstructionMessage = currentMessagesSnapshot.find(
-            (msg) => msg.role === "system"
+        // Files that only exist in component state are inlined when small
+        // enough and uploaded otherwise
+        const resolveLocalFile = async (
+            uri: string
+        ): Promise<ResolvedFile | null> => {
+            let file: Blob | null = null
+            let fileMimeType = "application/octet-stream"
+            if (uri === "local:attachment" && attachmentFileToSend) {
+                file = attachmentFileToSend
+                fileMimeType = attachmentFileToSend.type || fileMimeType
+            } else if (uri === "local:recording" && recordedAudioBlobToSend) {
+                file = new File([recordedAudioBlobToSend], "recording.webm", {
+                    type: "audio/webm",
+                })
+                fileMimeType = "audio/webm"
+            }
+            if (!file) return null
+            try {
+                if (file.size <= INLINE_MAX_BYTES) {
+                    return {
+                        mimeType: fileMimeType,
+                        data: await readBlobAsBase64(file),
+                    }
+                }
+                const uploaded = await uploadFileToGemini(file as File)
+                if (uploaded?.uri) {
+                    return {
+                        mimeType: uploaded.mimeType || fileMimeType,
+                        uri: uploaded.uri,
+                    }
+                }
+            } catch (e) {
+                console.error("Attachment transform failed", e)
+            }
+            return null
+        }
+        // State keeps the optimistic message when nothing was resolved
+        localFileResolversRef.current.set(optimisticUserMessage, resolveLocalFile)
+        localFileResolversRef.current.set(newUserMessage, resolveLocalFile)
+
+        await streamAssistantReply(
+            [...currentMessagesSnapshot, newUserMessage],
+            resolveLocalFile
         )
+    }
 
-        const chatHistoryForApi = [
-            ...currentMessagesSnapshot.filter(
-                (m) => m.role === "user" || m.role === "assistant"
-            ),
-            newUserMessage,
-        ].slice(-MAX_HISTORY_MESSAGES)
-
-        const geminiContents = await Promise.all(
-            chatHistoryForApi.map(async (msg) => {
-                const role = msg.role === "assistant" ? "model" : "user"
-                let parts: any[] = []
-
-                if (Array.isArray(msg.content)) {
-                    const transformed = await Promise.all(
-                        msg.content.map(async (part) => {
-                            if (part.type === "text") {
-                                return { text: part.text }
-                            }
-                            if (part.type === "inline_data") {
-                                return {
-                                    inlineData: {
-                                        mimeType: part.inline_data.mimeType,
-                                        data: part.inline_data.data,
-                                    },
-                                }
-                            }
-                            if (
-                                part.type === "image_url" &&
-                                part.image_url?.url
-                            ) {
-                                const [header, base64Data] =
-                                    part.image_url.url.split(",")
-                                if (!base64Data) {
-                                    return null
-                                }
-                                const mimeTypeMatch =
-                                    header.match(/data:(.*);base64/)
-                                const mimeType = mimeTypeMatch
-                                    ? mimeTypeMatch[1]
-                                    : "image/jpeg"
-                                return {
-                                    inlineData: { mimeType, data: base64Data },
-                                }
-                            }
-                            if (part.type === "file" && part.file?.uri) {
-                                const mimeType =
-                                    part.file.mimeType ||
-                                    "application/octet-stream"
-                                if (
-                                    part.file.uri === "local:attachment" &&
-                                    attachmentFileToSend
-                                ) {
-                                    try {
-                                        if (
-                                            attachmentFileToSend.size <=
-                                            INLINE_MAX_BYTES
-                                        ) {
-                                            const b64 =
-                                                await new Promise<string>(
-                                                    (resolve, reject) => {
-                                                        const fr =
-                                                            new FileReader()
-                                                        fr.onload = () => {
-                                                            const res =
-                                                                fr.result as string
-                                                            resolve(
-                                                                res.substring(
-                                                                    res.indexOf(
-                                                                        ","
-                                                                    ) + 1
-                                                                )
-                                                            )
-                                                        }
-                                                        fr.onerror = reject
-                                                        fr.readAsDataURL(
-                                                            attachmentFileToSend
-                                                        )
-                                                    }
-                                                )
-                                            return {
-                                                inlineData: {
-                                                    mimeType:
-                                                        attachmentFileToSend.type ||
-                                                        mimeType,
-                                                    data: b64,
-                                                },
-                                            }
-                                        } else {
-                                            const uploaded =
-                                                await uploadFileToGemini(
-                                                    attachmentFileToSend
-                                                )
-                                            if (uploaded?.uri) {
-                                                return {
-                                                    fileData: {
-                                                        fileUri: uploaded.uri,
-                                                        mimeType:
-                                                            uploaded.mimeType ||
-                                                            mimeType,
-                                                    },
-                                                }
-                                            }
-                                        }
-                                    } catch (e) {
-                                        console.error(
-                                            "Attachment transform failed",
-                                            e
-                                        )
-                                    }
-                                    return null
-                                }
-                                if (
-                                    part.file.uri === "local:recording" &&
-                                    recordedAudioBlobToSend
-                                ) {
-                                    try {
-                                        if (
-                                            recordedAudioBlobToSend.size <=
-                                            INLINE_MAX_BYTES
-                                        ) {
-                                            const arrayBuf =
-                                                await recordedAudioBlobToSend.arrayBuffer()
-                                            const b64 = btoa(
-                                                String.fromCharCode(
-                                                    ...new Uint8Array(arrayBuf)
-                                                )
-                                            )
-                                            return {
-                                                inlineData: {
-                                                    mimeType: "audio/webm",
-                                                    data: b64,
-                                                },
-                                            }
-                                        } else {
-                                            const f = new File(
-                                                [recordedAudioBlobToSend],
-                                                "recording.webm",
-                                                { type: "audio/webm" }
-                                            )
-                                            const uploaded =
-                                                await uploadFileToGemini(f)
-                                            if (uploaded?.uri) {
-                                                return {
-                                                    fileData: {
-                                                        fileUri: uploaded.uri,
-                                                        mimeType: "audio/webm",
-                                                    },
-                                                }
-                                            }
-                                        }
-                                    } catch (e) {
-                                        console.error(
-                                            "Recording transform failed",
-                                            e
-                                        )
-                                    }
-                                    return null
-                                }
-                                if (part.file.uri.startsWith("blob:")) {
-                                    try {
-                                        const resp = await fetch(part.file.uri)
-                                        const buf = await resp.arrayBuffer()
-                                        const b64 = btoa(
-                                            String.fromCharCode(
-                                                ...new Uint8Array(buf)
-                                            )
-                                        )
-                                        return {
-                                            inlineData: { mimeType, data: b64 },
-                                        }
-                                    } catch (e) {
-                                        console.error(
-                                            "Blob inline transform failed",
-                                            e
-                                        )
-                                    }
-                                    return null
-                                }
-                                return {
-                                    fileData: {
-                                        fileUri: part.file.uri,
-                                        mimeType,
-                                    },
-                                }
-                            }
-                            return null
-                        })
+    // Gemini context caches keyed by model, instruction and tools. null marks
+    // a combination the API refused (model unsupported, prompt too small) so
+    // it is not attempted on every message.
+    const contextCachesRef = useRef(new Map<string, ContextCacheEntry | null>())
+    const pendingContextCachesRef = useRef(
+        new Map<string, Promise<string | null>>()
+    )
+
+    /** Cancels every cache's refresh timer and any refresh already sent. */
+    const cancelContextCacheRefreshes = () => {
+        contextCachesRef.current.forEach((entry) => {
+            clearTimeout(entry?.timer)
+            entry?.refresh?.abort()
+        })
+    }
+
+    useEffect(() => cancelContextCacheRefreshes, [])
+
+    // Extends a cache shortly before it expires, but only if it was used
+    // since the last extension; idle caches are left to expire
+    const scheduleContextCacheRefresh = (entry: ContextCacheEntry) => {
+        clearTimeout(entry.timer)
+        entry.timer = setTimeout(
+            async () => {
+                if (!entry.usedSinceRefresh) return
+                entry.usedSinceRefresh = false
+                const refresh = new AbortController()
+                entry.refresh = refresh
+                try {
+                    const extended = await extendGeminiContextCache(
+                        transport,
+                        geminiEndpoint,
+                        entry.name,
+                        Math.max(60, cacheTtlSeconds),
+                        refresh.signal
+                    )
+                    entry.expiresAt = extended.expiresAt
+                    scheduleContextCacheRefresh(entry)
+                } catch (e) {
+                    // The next request extends or recreates it
+                } finally {
+                    if (entry.refresh === refresh) entry.refresh = undefined
+                }
+            },
+            Math.max(0, entry.expiresAt - Date.now() - CACHE_REFRESH_MARGIN_MS)
+        )
+    }
+
+    const dropContextCache = (name: string) => {
+        contextCachesRef.current.forEach((entry, key) => {
+            if (entry?.name !== name) return
+            clearTimeout(entry.timer)
+            entry.refresh?.abort()
+            contextCachesRef.current.delete(key)
+        })
+    }
+
+    /**
+     * Name of a live cache for this request, or null to send everything
+     * inline. `signal` is the request's, so stopping it cancels the cache call.
+     */
+    const resolveContextCache = async (
+        cacheModel: string,
+        systemInstruction: string,
+        signal: AbortSignal
+    ): Promise<string | null> => {
+        if (
+            !enableContextCaching ||
+            mockMode ||
+            chatProvider.id !== "gemini" ||
+            !systemInstruction
+        ) {
+            return null
+        }
+        const tools = buildGeminiTools({
+            tools: toolList,
+            googleSearch: enableGoogleSearch,
+        })
+        const key = JSON.stringify([cacheModel, systemInstruction, tools])
+        const caches = contextCachesRef.current
+        const existing = caches.get(key)
+        if (existing === null) return null
+        if (existing && existing.expiresAt - Date.now() > CACHE_REFRESH_MARGIN_MS) {
+            existing.usedSinceRefresh = true
+            return existing.name
+        }
+        const pending = pendingContextCachesRef.current.get(key)
+        if (pending) return pending
+
+        const ttlSeconds = Math.max(60, cacheTtlSeconds)
+        const promise = (async () => {
+            if (existing) {
+                clearTimeout(existing.timer)
+                existing.refresh?.abort()
+                try {
+                    const extended = await extendGeminiContextCache(
+                        transport,
+                        geminiEndpoint,
+                        existing.name,
+                        ttlSeconds,
+                        signal
                     )
-                    parts = transformed.filter(Boolean)
-                } else if (typeof msg.content === "string") {
-                    parts = [{ text: msg.content }]
+                    existing.expiresAt = extended.expiresAt
+                    existing.usedSinceRefresh = false
+                    scheduleContextCacheRefresh(existing)
+                    return existing.name
+                } catch (e) {
+                    // A cancelled request leaves the cache for the next one
+                    if (signal.aborted) return null
+                    caches.delete(key)
+                }
+            }
+            try {
+                const created = await createGeminiContextCache(
+                    transport,
+                    geminiEndpoint,
+                    {
+                        model: cacheModel,
+                        systemInstruction,
+                        tools,
+                        ttlSeconds,
+                        signal,
+                    }
+                )
+                const entry: ContextCacheEntry = {
+                    ...created,
+                    usedSinceRefresh: false,
                 }
-
-                if (
-                    parts.length === 0 &&
-                    (role === "user" || role === "model")
-                ) {
-                    parts.push({ text: "" })
+                caches.set(key, entry)
+                scheduleContextCacheRefresh(entry)
+                return entry.name
+            } catch (e: any) {
+                if (signal.aborted) return null
+                console.info(
+                    `Context caching unavailable for ${cacheModel}; sending the prompt inline.`,
+                    e?.message
+                )
+                if (CACHE_UNSUPPORTED_STATUS_CODES.includes(e?.status)) {
+                    caches.set(key, null)
                 }
-                return { role, parts }
-            })
-        )
+                return null
+            } finally {
+                pendingContextCachesRef.current.delete(key)
+            }
+        })()
+        pendingContextCachesRef.current.set(key, promise)
+        return promise
+    }
 
-        const geminiPayload: any = {
-            contents: geminiContents,
-            generationConfig: {},
-        }
+    // Rolling summary of turns that no longer fit in the history window.
+    // `upTo` is the last message it covers; once that message leaves the
+    // conversation (edit, branch or variant switch) the summary is rebuilt.
+    const historySummaryRef = useRef<{ text: string; upTo: Message } | null>(
+        null
+    )
 
-        // Configure Thinking (Reasoning) based on reasoningEffort prop
-        // "none" disables thinking via thinkingBudget: 0
-        // "low" | "medium" | "high" use thinkingLevel (Gemini 3+)
-        if (reasoningEffort === "none") {
-             geminiPayload.generationConfig.thinkingConfig = {
-                 thinkingBudget: 0,
-             }
-        } else {
-             geminiPayload.generationConfig.thinkingConfig = {
-                 thinkingLevel: reasoningEffort, // "low", "medium", "high"
-             }
+    /** Folds `turns` into `previous` with one non-streaming call. */
+    const summarizeHistory = async (
+        previous: string,
+        turns: Message[],
+        signal: AbortSignal
+    ): Promise<string | null> => {
+        const transcript = turns
+            .map(
+                (m) =>
+                    `${m.role === "user" ? "User" : "Assistant"}: ${getMessageText(m.content)}`
+            )
+            .join("\n\n")
+        const prompt = [
+            previous ? `Summary so far:\n\n${previous}` : "",
+            `New messages:\n\n${transcript}`,
+            "Return the updated summary.",
+        ]
+            .filter(Boolean)
+            .join("\n\n")
+        try {
+            const request = await chatProvider.buildRequest(
+                {
+                    model:
+                        summaryModel.trim() ||
+                        (chatProvider.id === "gemini"
+                            ? DEFAULT_SUMMARY_MODEL_ID
+                            : activeModel),
+                    history: [{ role: "user", content: prompt }],
+                    systemInstruction: HISTORY_SUMMARY_INSTRUCTION,
+                    reasoningEffort: "none",
+                    maxOutputTokens: HISTORY_SUMMARY_MAX_TOKENS,
+                },
+                { stream: false }
+            )
+            const response = await transport.fetch(request.url, {
+                method: "POST",
+                headers: request.headers,
+                body: JSON.stringify(request.body),
+                signal,
+            })
+            if (!response.ok) return null
+            const data = await response.json()
+            const usage = chatProvider.parseUsage(data)
+            if (usage) recordUsage(usage)
+            return chatProvider.parseResponseText(data)?.trim() || null
+        } catch (e) {
+            return null
         }
+    }
 
-        if (
-            systemInstructionMessage &&
-            typeof systemInstructionMessage.content === "string" &&
-            systemInstructionMessage.content.trim() !== ""
-        ) {
-            geminiPayload.systemInstruction = {
-                parts: [{ text: systemInstructionMessage.content }],
+    /**
+     * The turns to send and the summary standing in for older ones. Once more
+     * than `historySummaryThreshold` turns follow the summary, all but the
+     * newest half are folded into it. If that fails, or summaries are off,
+     * the token budget trims the oldest turns instead.
+     */
+    const condenseHistory = async (
+        history: Message[],
+        signal: AbortSignal
+    ): Promise<{ history: Message[]; summary: string }> => {
+        const threshold = Math.max(0, Math.round(historySummaryThreshold))
+        if (threshold === 0) return { history, summary: "" }
+        let current = historySummaryRef.current
+        const start = current ? history.indexOf(current.upTo) + 1 : 0
+        if (start === 0) current = null
+        let pending = history.slice(start)
+        if (pending.length > threshold) {
+            const keep = Math.max(2, Math.floor(threshold / 2))
+            const older = pending.slice(0, -keep)
+            const text = await summarizeHistory(current?.text || "", older, signal)
+            if (text) {
+                current = { text, upTo: older[older.length - 1] }
+                historySummaryRef.current = current
+                pending = pending.slice(-keep)
             }
         }
+        return { history: pending, summary: current?.text || "" }
+    }
 
+    /**
+     * Applies `historyTokenBudget`. The local estimate decides what to trim;
+     * near the budget, one countTokens call corrects its scale first.
+     */
+    const fitHistoryToTokenBudget = async (
+        history: Message[],
+        resolveLocalFile: ChatRequestInput["resolveLocalFile"],
+        signal: AbortSignal
+    ): Promise<Message[]> => {
+        const budget = Math.max(1, historyTokenBudget)
+        const estimate = history.reduce(
+            (sum, m) => sum + estimateMessageTokens(m),
+            0
+        )
+        if (estimate <= budget / 2 || !chatProvider.buildCountTokensRequest) {
+            return fitHistoryToBudget(history, budget)
+        }
+        let scale = 1
         try {
-            const url = `https://generativelanguage.googleapis.com/v1beta/models/${model}:streamGenerateContent?key=${geminiApiKey}&alt=sse`
-
-            const fetchPromise = fetch(url, {
+            const request = await chatProvider.buildCountTokensRequest({
+                model: activeModel,
+                history,
+                resolveLocalFile,
+            })
+            const response = await transport.fetch(request.url, {
                 method: "POST",
-                headers: {
-                    "Content-Type": "application/json",
-                },
-                body: JSON.stringify(geminiPayload),
+                headers: request.headers,
+                body: JSON.stringify(request.body),
                 signal,
             })
+            if (response.ok) {
+                const counted = chatProvider.parseTokenCount(await response.json())
+                if (counted) scale = counted / estimate
+            }
+        } catch (e) {
+            if (e?.name === "AbortError") throw e
+            // Fall back to the estimate
+        }
+        return fitHistoryToBudget(history, budget, scale)
+    }
 
-            const timeoutPromise = new Promise<Response>((_, reject) => {
-                const id = setTimeout(() => {
-                    clearTimeout(id)
-                    reject(new Error("Request timed out"))
-                }, API_TIMEOUT_MS)
-            })
+    // Streams the assistant's answer to `conversation` (system prompt plus
+    // turns, ending with the user message). Call startRequest() first. With
+    // `regenerateTarget` the answer becomes a new variant of that message
+    // instead of a new message.
+    async function streamAssistantReply(
+        conversation: Message[],
+        resolveLocalFile?: (uri: string) => Promise<ResolvedFile | null>,
+        regenerateTarget?: Message
+    ) {
+        const controller = abortControllerRef.current
+        if (!controller) return
+        const signal = controller.signal
+        retryResolveLocalFileRef.current = resolveLocalFile
+        const isLatestTurn =
+            !regenerateTarget ||
+            messages[messages.length - 1] === regenerateTarget
+
+        const systemInstructionMessage = conversation.find(
+            (msg) => msg.role === "system"
+        )
+        const systemInstruction = [
+            typeof systemInstructionMessage?.content === "string"
+                ? systemInstructionMessage.content.trim()
+                : "",
+            pinnedKnowledge.trim()
+                ? `Reference knowledge:\n\n${pinnedKnowledge.trim()}`
+                : "",
+        ]
+            .filter(Boolean)
+            .join("\n\n")
+
+        const fullHistory = conversation.filter(
+            (m) => (m.role === "user" || m.role === "assistant") && !m.blocked
+        )
 
-            const response = await Promise.race([fetchPromise, timeoutPromise])
+        // Uploads happen once even if the request is retried on other models
+        const resolvedLocalFiles = new Map<string, Promise<ResolvedFile | null>>()
+        const resolveLocalFileOnce = (uri: string) => {
+            if (!resolveLocalFile) return Promise.resolve(null)
+            if (!resolvedLocalFiles.has(uri)) {
+                resolvedLocalFiles.set(uri, resolveLocalFile(uri))
+            }
+            return resolvedLocalFiles.get(uri)
+        }
 
-            if (!response.ok) {
-                let errMsg = `API error: ${response.status}`
-                if (!signal.aborted) {
-                    try {
-                        const errData = await response.json()
-                        errMsg =
-                            errData?.error?.message ||
-                            JSON.stringify(errData.error) ||
-                            errMsg
-                    } catch (pE) {
+        const modelChain = [activeModel, ...fallbackModels]
+            .map((m) => (m || "").trim())
+            .filter((m, i, all) => m !== "" && all.indexOf(m) === i)
+
+        // Timeouts abort through the same controller as the Stop button, so
+        // every exit path unwinds the request the same way
+        let timedOut: keyof typeof TIMEOUT_ERROR_MESSAGES | null = null
+        let connectTimer: any = null
+        let idleTimer: any = null
+        const abortWithTimeout = (kind: keyof typeof TIMEOUT_ERROR_MESSAGES) => {
+            if (signal.aborted) return
+            timedOut = kind
+            controller.abort()
+        }
+        const totalTimer = setTimeout(
+            () => abortWithTimeout("total"),
+            Math.max(1, totalTimeout) * 1000
+        )
+        const resetIdleTimer = () => {
+            clearTimeout(idleTimer)
+            idleTimer = setTimeout(
+                () => abortWithTimeout("idle"),
+                Math.max(1, streamIdleTimeout) * 1000
+            )
+        }
+
+        // Tool calls made by this reply so far. Each round replays them to
+        // the model until it answers in text or runs out of steps.
+        const toolCalls: ToolCallRecord[] = []
+        const toolStepLimit = Math.max(0, maxToolSteps)
+        let toolLimitReached = false
+        let replySaved = false
+        let grounding: GroundingInfo | null = null
+        let thoughts = ""
+        let replyUsage: TokenUsage | null = null
+        let replyModel = ""
+        let fullResp = ""
+        let firstChunk = true
+
+        try {
+            const { history: recentHistory, summary: historySummary } =
+                await condenseHistory(fullHistory, signal)
+            const chatHistoryForApi = await fitHistoryToTokenBudget(
+                recentHistory,
+                resolveLocalFileOnce,
+                signal
+            )
+
+            for (let step = 0; ; step++) {
+                const history: Message[] = toolCalls.length
+                    ? [
+                          ...chatHistoryForApi,
+                          { role: "assistant", content: "", toolCalls },
+                      ]
+                    : chatHistoryForApi
+                const { response, model: roundModel } = await fetchWithRetry(
+                    async (candidateModel) =>
+                        chatProvider.buildRequest(
+                            {
+                                model: candidateModel,
+                                history,
+                                systemInstruction: systemInstruction || undefined,
+                                historySummary: historySummary || undefined,
+                                cachedContent:
+                                    (await resolveContextCache(
+                                        candidateModel,
+                                        systemInstruction,
+                                        signal
+                                    )) || undefined,
+                                reasoningEffort,
+                                includeThoughts: showThinking,
+                                ...generationParams,
+                                tools: toolList,
+                                googleSearch: enableGoogleSearch,
+                                safetySettings:
+                                    toGeminiSafetySettings(safetySettings),
+                                jsonResponse: isStructuredMode
+                                    ? { schema: parsedResponseSchema }
+                                    : undefined,
+                                resolveLocalFile: resolveLocalFileOnce,
+                            },
+                            { stream: true }
+                        ),
+                    async (request) => {
+                        connectTimer = setTimeout(
+                            () => abortWithTimeout("connect"),
+                            Math.max(1, connectTimeout) * 1000
+                        )
+                        try {
+                            const response = await transport.fetch(request.url, {
+                                method: "POST",
+                                headers: request.headers,
+                                body: JSON.stringify(request.body),
+                                signal,
+                            })
+                            // A cache deleted or expired on the server is
+                            // recreated by the next request
+                            if (
+                                request.body.cachedContent &&
+                                CACHE_UNSUPPORTED_STATUS_CODES.includes(
+                                    response.status
+                                )
+                            ) {
+                                dropContextCache(request.body.cachedContent)
+                            }
+                            return response
+                        } finally {
+                            clearTimeout(connectTimer)
+                        }
+                    },
+                    modelChain,
+                    {
+                        maxRetries: Math.max(0, maxRetries),
+                        signal,
+                        onRetry: setRetryState,
+                    }
+                )
+                setRetryState(null)
+                replyModel = roundModel
+
+                if (!response.ok) {
+                    let errMsg = `API error: ${response.status}`
+                    if (!signal.aborted) {
                         try {
-                            errMsg = (await response.text()) || errMsg
-                        } catch (tE) {}
+                            const errData = await response.json()
+                            errMsg =
+                                errData?.error?.message ||
+                                JSON.stringify(errData.error) ||
+                                errMsg
+                        } catch (pE) {
+                            try {
+                                errMsg = (await response.text()) || errMsg
+                            } catch (tE) {}
+                        }
+                        setError("Message not sent. Please try again.")
+                        setRetryableConversation(conversation)
+                    }
+                    return
+                }
+                if (!response.body) {
+                    if (!signal.aborted) {
+                        throw new Error("No response body from API.")
                     }
-                    setError("Message not sent. Please try again.")
+                    return
                 }
-            } else if (!response.body && !signal.aborted) {
-                throw new Error("No response body from API.")
-            } else if (response.body) {
+
                 const reader = response.body.getReader()
-                let fullResp = ""
-                let firstChunk = true
+                const streamParser = chatProvider.createStreamParser()
                 const decoder = new TextDecoder()
+                const requestedCalls: ToolCallRequest[] = []
+                // Usage is cumulative per request, so keep the latest
+                let roundUsage: TokenUsage | null = null
+                // Text after a tool round starts a new paragraph
+                let separator = fullResp.trim() ? "\n\n" : ""
 
                 while (true) {
                     if (signal.aborted) {
                         setStreamed("")
                         break
                     }
+                    resetIdleTimer()
                     const { value, done } = await reader.read()
-                    if (done) break
-
-                    const chunk = decoder.decode(value, { stream: true })
-                    const lines = chunk.split("\n")
-                    for (const line of lines) {
-                        if (line.startsWith("data: ")) {
-                            try {
-                                const jsonStr = line.substring(5).trim()
-                                if (!jsonStr) continue
-
-                                const json = JSON.parse(jsonStr)
-
-                                const candidate = json.candidates?.[0]
-                                if (
-                                    candidate?.finishReason &&
-                                    candidate.finishReason !== "STOP" &&
-                                    candidate.finishReason !== "MAX_TOKENS"
-                                ) {
-                                    let displayError = `API Error: ${candidate.finishReason}`
-                                    if (json.promptFeedback?.blockReason) {
-                                        displayError = `Blocked: ${json.promptFeedback.blockReason}`
-                                    } else if (
-                                        candidate.safetyRatings?.some(
-                                            (r: any) => r.blocked
-                                        )
-                                    ) {
-                                        displayError = `Blocked due to safety settings.`
-                                    }
-                                    setError("Message not sent. Please try again. If this issue persists, please contact support@curastem.org")
-                                    fullResp = ""
-                                    setStreamed("")
-                                    setIsLoading(false)
-                                    return
+                    const events = done
+                        ? [
+                              ...streamParser.push(decoder.decode()),
+                              ...streamParser.flush(),
+                          ]
+                        : streamParser.push(
+                              decoder.decode(value, { stream: true })
+                          )
+
+                    for (const event of events) {
+                        if (event.type === "blocked") {
+                            console.warn(event.message, event.category || "")
+                            // A re-roll keeps the earlier answer and its prompt
+                            if (regenerateTarget) {
+                                setError(describeBlockedResponse(event))
+                                fullResp = ""
+                                setStreamed("")
+                                setIsLoading(false)
+                                return
+                            }
+                            // Keep the message visible but out of future
+                            // requests, and offer its text back for editing
+                            const blockedMessage = [...conversation]
+                                .reverse()
+                                .find((m) => m.role === "user")
+                            setMessages((prev) => {
+                                let index = prev.lastIndexOf(blockedMessage)
+                                if (index === -1) {
+                                    index = prev
+                                        .map((m) => m.role)
+                                        .lastIndexOf("user")
                                 }
+                                if (index === -1) return prev
+                                const next = [...prev]
+                                next[index] = { ...prev[index], blocked: true }
+                                return next
+                            })
+                            setBlockedDraft(
+                                getMessageText(blockedMessage?.content)
+                            )
+                            setError(describeBlockedResponse(event))
+                            fullResp = ""
+                            setStreamed("")
+                            setIsLoading(false)
+                            return
+                        }
+                        // Only the first candidate is shown in the transcript
+                        if (event.candidateIndex !== 0) continue
+                        if (event.type === "toolCall") {
+                            requestedCalls.push(event.call)
+                            continue
+                        }
+                        if (event.type === "usage") {
+                            roundUsage = event.usage
+                            continue
+                        }
+                        if (event.type === "grounding") {
+                            grounding = event.grounding
+                            continue
+                        }
+                        if (event.type === "thought") {
+                            if (!showThinking) continue
+                            const thoughtDelta = event.text
+                            thoughts += thoughtDelta
+                            startTransition(() =>
+                                setStreamedThoughts((prev) => prev + thoughtDelta)
+                            )
+                            continue
+                        }
+                        if (event.type !== "text") continue
 
-                                let delta =
-                                    candidate?.content?.parts?.[0]?.text || ""
-                                if (firstChunk && delta) {
-                                    delta = delta.trimStart()
-                                    if (delta) firstChunk = false
-                                }
-                                if (delta) {
-                                    fullResp += delta
-                                    startTransition(() =>
-                                        setStreamed((prev) => prev + delta)
-                                    )
-                                }
-                            } catch (e) {
-                                // ignore
-                            }
+                        let delta = event.text
+                        if (firstChunk && delta) {
+                            delta = delta.trimStart()
+                            if (delta) firstChunk = false
+                        }
+                        if (delta) {
+                            delta = separator + delta
+                            separator = ""
+                            fullResp += delta
+                            startTransition(() =>
+                                setStreamed((prev) => prev + delta)
+                            )
                         }
                     }
+                    if (done) break
+                }
+                clearTimeout(idleTimer)
+                if (roundUsage) {
+                    recordUsage(roundUsage)
+                    replyUsage = addTokenUsage(
+                        replyUsage || EMPTY_TOKEN_USAGE,
+                        roundUsage
+                    )
                 }
 
-                if (!signal.aborted && fullResp.trim()) {
-                    startTransition(() => {
-                        setMessages((prev) => [
-                            ...prev,
-                            { role: "assistant", content: fullResp.trim() },
-                        ])
-                        setStreamed("")
-                    })
-                    if (enableAiSuggestions) {
-                        fetchAiSuggestions(fullResp.trim())
+                if (signal.aborted || requestedCalls.length === 0) break
+                if (step >= toolStepLimit) {
+                    toolLimitReached = true
+                    break
+                }
+
+                // Show the calls while their handlers run, then fill in results
+                const firstIndex = toolCalls.length
+                toolCalls.push(...requestedCalls.map((call) => ({ ...call, step })))
+                setStreamedToolCalls([...toolCalls])
+                const responses = await Promise.all(
+                    requestedCalls.map((call) => runToolCall(call, toolHandlerMap))
+                )
+                if (signal.aborted) break
+                responses.forEach((toolResponse, i) => {
+                    toolCalls[firstIndex + i] = {
+                        ...toolCalls[firstIndex + i],
+                        response: toolResponse,
                     }
-                } else if (
-                    !signal.aborted &&
-                    !error &&
-                    !fullResp.trim() &&
-                    streamed.trim() === ""
-                ) {
-                    setStreamed("")
-                } else if (signal.aborted) {
+                })
+                setStreamedToolCalls([...toolCalls])
+            }
+
+            if (!signal.aborted && (fullResp.trim() || toolCalls.length > 0)) {
+                const reply: Message = {
+                    role: "assistant",
+                    content: fullResp.trim(),
+                    ...(toolCalls.length > 0 ? { toolCalls } : {}),
+                    ...(grounding ? { grounding } : {}),
+                    ...(isStructuredMode ? { structured: true } : {}),
+                    ...(thoughts.trim() ? { thoughts: thoughts.trim() } : {}),
+                    ...(replyUsage ? { usage: replyUsage } : {}),
+                    ...(replyModel ? { model: replyModel } : {}),
+                }
+                startTransition(() => {
+                    setMessages((prev) => {
+                        if (!regenerateTarget) return [...prev, reply]
+                        const index = prev.indexOf(regenerateTarget)
+                        if (index === -1) return prev
+                        const next = [...prev]
+                        next[index] = addAssistantVariant(prev[index], reply)
+                        return next
+                    })
+                    setRegeneratingMessage(null)
                     setStreamed("")
+                    setStreamedThoughts("")
+                    setStreamedToolCalls([])
+                })
+                replySaved = true
+                if (toolLimitReached && !fullResp.trim()) {
+                    setError("The assistant couldn't finish its answer. Please try again.")
+                } else if (enableAiSuggestions && isLatestTurn && fullResp.trim()) {
+                    fetchAiSuggestions(fullResp.trim())
                 }
+            } else if (
+                !signal.aborted &&
+                !error &&
+                !fullResp.trim() &&
+                streamed.trim() === ""
+            ) {
+                setStreamed("")
+            } else if (signal.aborted) {
+                setStreamed("")
             }
         } catch (e: any) {
             if (e.name === "AbortError") {
                 setStreamed("")
             } else if (!error) {
                 setError("Message not sent. Please try again. If this issue persists, please contact support@curastem.org")
+                setRetryableConversation(conversation)
                 setStreamed("")
             }
         } finally {
-            setIsLoading(false)
-            abortControllerRef.current = null
+            clearTimeout(totalTimer)
+            clearTimeout(idleTimer)
+            clearTimeout(connectTimer)
+            if (timedOut) {
+                setError(TIMEOUT_ERROR_MESSAGES[timedOut])
+                setRetryableConversation(conversation)
+            }
+            // A newer request may already own the loading state
+            if (abortControllerRef.current === controller) {
+                abortControllerRef.current = null
+                setIsLoading(false)
+                setRetryState(null)
+                if (!replySaved) {
+                    setStreamedThoughts("")
+                    setStreamedToolCalls([])
+                }
+            }
+        }
+    }
+
+    const handleRephraseBlocked = () => {
+        if (blockedDraft === null) return
+        setMessages((prev) => {
+            const index = prev.map((m) => !!m.blocked).lastIndexOf(true)
+            return index === -1
+                ? prev
+                : [...prev.slice(0, index), ...prev.slice(index + 1)]
+        })
+        setInput(blockedDraft)
+        setBlockedDraft(null)
+        setError("")
+        inputRef.current?.focus()
+    }
+
+    const handleRetryLastRequest = () => {
+        if (isLoading || !retryableConversation) return
+        if (!admitModelRequest()) return
+        const conversation = retryableConversation
+        const target = regeneratingMessage || undefined
+        startRequest(target)
+        streamAssistantReply(
+            conversation,
+            retryResolveLocalFileRef.current,
+            target
+        )
+    }
+
+    // Re-runs the turn that produced `message` with the history before it
+    const handleRegenerate = (message: Message) => {
+        if (isLoading || isLiveGenerating) return
+        const index = messages.indexOf(message)
+        if (index < 1 || messages[index - 1].role !== "user") return
+        if (!admitModelRequest()) return
+        if (index === messages.length - 1) setAiGeneratedSuggestions([])
+        startRequest(message)
+        streamAssistantReply(
+            messages.slice(0, index),
+            localFileResolversRef.current.get(messages[index - 1]),
+            message
+        )
+    }
+
+    const handleStartEdit = (message: Message) => {
+        if (isLoading) return
+        setEditingMessage(message)
+        setEditDraft(getMessageText(message.content))
+    }
+
+    const handleCancelEdit = () => {
+        setEditingMessage(null)
+        setEditDraft("")
+    }
+
+    // Re-sends an edited user turn as a new branch; the previous wording and
+    // its answers stay reachable through the branch switcher
+    const handleSubmitEdit = () => {
+        const message = editingMessage
+        const text = editDraft.trim()
+        if (!message || !text || isLoading) return
+        if (text.length > MAX_INPUT_LENGTH) {
+            setError(`Message too long (max ${MAX_INPUT_LENGTH} characters).`)
+            return
+        }
+        const index = messages.indexOf(message)
+        if (index === -1) {
+            handleCancelEdit()
+            return
+        }
+        if (!chatProvider.isConfigured) {
+            setError(chatProvider.missingConfigMessage)
+            return
+        }
+        if (!admitModelRequest()) return
+
+        // Attachments stay; only the typed text changes
+        const content: Message["content"] = Array.isArray(message.content)
+            ? message.content.map((part) =>
+                  part.type === "text" ? { ...part, text } : part
+              )
+            : text
+        const path = branchConversation(messages, index, content)
+        handleCancelEdit()
+        setAiGeneratedSuggestions([])
+        setMessages(path)
+        startRequest()
+        streamAssistantReply(path)
+    }
+
+    const handleSelectBranch = (message: Message, branchIndex: number) => {
+        setMessages((prev) => {
+            const index = prev.indexOf(message)
+            return index === -1 ? prev : selectBranch(prev, index, branchIndex)
+        })
+    }
+
+    const handleSelectVariant = (message: Message, index: number) => {
+        const selected = selectAssistantVariant(message, index)
+        setMessages((prev) => prev.map((m) => (m === message ? selected : m)))
+        // Keep a pending "Try again" pointed at the same message
+        if (message === regeneratingMessage) setRegeneratingMessage(selected)
+    }
+
+    // ---- Threads ----
+
+    /** Shows thread `id`: its stored conversation, or a new chat under that id. */
+    const openThread = (
+        id: string,
+        stored: Pick<StoredConversation, "messages" | "suggestions"> | null
+    ) => {
+        const opened = stored
+            ? [
+                  createInitialMessages()[0],
+                  ...stored.messages.filter((m) => m.role !== "system"),
+              ]
+            : createInitialMessages()
+        const suggestions = stored?.suggestions || []
+        lastPersistedRef.current = { messages: opened, suggestions }
+        // The summary belongs to the thread being left
+        historySummaryRef.current = null
+        conversationEpochRef.current += 1
+        setThreadId(id)
+        rememberActiveThread(id)
+        setMessages(opened)
+        setAiGeneratedSuggestions(suggestions)
+        setError("")
+        setRetryableConversation(null)
+        setBlockedDraft(null)
+        setRegeneratingMessage(null)
+        handleCancelEdit()
+        setThreadSheetOpen(false)
+    }
+
+    const handleSelectThread = async (id: string) => {
+        if (isLoading || id === threadId) return
+        await persistThread()
+        try {
+            openThread(id, await loadConversation(id))
+        } catch (e) {
+            console.error("Failed to open thread", e)
+            setError("Couldn't open that chat.")
+        }
+    }
+
+    /**
+     * Starts over with the system prompt and welcome message, cancelling
+     * anything in flight. With threads on the previous chat is always kept
+     * in the list. In single-conversation mode it's deleted, unless
+     * `archiveOnNewChat` saves it for when threads are turned on.
+     */
+    const handleNewChat = async () => {
+        handleStopGeneration()
+        // The next request extends the caches it still uses
+        cancelContextCacheRefreshes()
+        if (isLiveMode) stopLiveSession()
+        handleStopTTS()
+        const recorder = mediaRecorderRef.current
+        if (recorder) {
+            // Drop the take instead of attaching it to the new chat
+            recorder.onstop = null
+            recorder.stop()
+            recorder.stream.getTracks().forEach((track) => track.stop())
+            mediaRecorderRef.current = null
+            setIsRecording(false)
+        }
+        setInput("")
+        setImageFile(null)
+        setImagePreviewUrl("")
+        setAttachmentFile(null)
+        setAttachmentPreview(null)
+        if (recordedAudioUrl) {
+            try {
+                URL.revokeObjectURL(recordedAudioUrl)
+            } catch {}
+            setRecordedAudioUrl("")
+        }
+        recordedAudioBlobRef.current = null
+        if (fileInputRef.current) fileInputRef.current.value = ""
+        setExportMenuOpen(false)
+
+        if (threadsEnabled || archiveOnNewChat) {
+            await persistThread()
+        } else if (persistConversation) {
+            const previousId = threadId
+            // Keep a pending debounced save from bringing it back
+            lastPersistedRef.current = {
+                messages,
+                suggestions: aiGeneratedSuggestions,
+            }
+            setThreads((prev) =>
+                prev.filter((thread) => thread.id !== previousId)
+            )
+            deleteConversation(previousId).catch((e) =>
+                console.error("Failed to delete conversation", e)
+            )
+        }
+        openThread(newStorageId(), null)
+    }
+
+    const handleStartRename = (thread: ConversationSummary) => {
+        setConfirmDeleteThreadId(null)
+        setRenamingThreadId(thread.id)
+        setRenameDraft(threadLabel(thread))
+    }
+
+    // An empty name goes back to showing the first question
+    const handleSubmitRename = async () => {
+        const id = renamingThreadId
+        if (!id) return
+        const title = renameDraft.trim()
+        setRenamingThreadId(null)
+        setThreads((prev) =>
+            prev.map((thread) =>
+                thread.id === id ? { ...thread, title } : thread
+            )
+        )
+        try {
+            await renameConversation(id, title)
+        } catch (e) {
+            console.error("Failed to rename thread", e)
+        }
+    }
+
+    // The first press arms the button; the second deletes
+    const handleDeleteThread = async (id: string) => {
+        if (confirmDeleteThreadId !== id) {
+            setConfirmDeleteThreadId(id)
+            return
+        }
+        setConfirmDeleteThreadId(null)
+        const isOpen = id === threadId
+        if (isOpen && isLoading) return
+        // Keep a pending debounced save from bringing it back
+        if (isOpen) {
+            lastPersistedRef.current = {
+                messages,
+                suggestions: aiGeneratedSuggestions,
+            }
+        }
+        try {
+            await deleteConversation(id)
+        } catch (e) {
+            console.error("Failed to delete thread", e)
+            return
+        }
+        const remaining = threads.filter((thread) => thread.id !== id)
+        setThreads(remaining)
+        if (!isOpen) return
+        const next = remaining[0]
+        try {
+            openThread(
+                next?.id || newStorageId(),
+                next ? await loadConversation(next.id) : null
+            )
+        } catch (e) {
+            console.error("Failed to open thread", e)
+            openThread(newStorageId(), null)
+        }
+    }
+
+    // ---- Export & import ----
+
+    const handleExport = (format: ExportFormat) => {
+        setExportMenuOpen(false)
+        if (format === "markdown") {
+            downloadFile(
+                exportFileName("md"),
+                "text/markdown",
+                buildConversationMarkdown(messages)
+            )
+        } else if (format === "html") {
+            downloadFile(
+                exportFileName("html"),
+                "text/html",
+                buildConversationHtml(messages)
+            )
+        } else {
+            downloadFile(
+                exportFileName("json"),
+                "application/json",
+                buildConversationJson(
+                    messages,
+                    aiGeneratedSuggestions,
+                    format === "json-embedded"
+                )
+            )
+        }
+    }
+
+    // With threads the import opens as a new thread; otherwise it replaces
+    // the current chat
+    const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files && e.target.files[0]
+        e.target.value = ""
+        if (!file || isLoading) return
+        try {
+            const imported = parseConversationImport(await file.text())
+            if (threadsEnabled) await persistThread()
+            openThread(threadsEnabled ? newStorageId() : threadId, imported)
+            // Unlike a loaded thread, an import still needs saving
+            lastPersistedRef.current = null
+        } catch (err: any) {
+            setError(err.message || "Couldn't import that file.")
+        }
+    }
+
+    // ---- Share links ----
+
+    const showShareNotice = (notice: string) => {
+        if (shareNoticeTimeoutRef.current) {
+            clearTimeout(shareNoticeTimeoutRef.current)
+        }
+        setShareNotice(notice)
+        shareNoticeTimeoutRef.current = setTimeout(
+            () => setShareNotice(""),
+            SHARE_NOTICE_MS
+        )
+    }
+
+    const handleCopyShareLink = async () => {
+        setExportMenuOpen(false)
+        try {
+            const url =
+                window.location.href.split("#")[0] +
+                (await encodeShareFragment(messages))
+            if (url.length > MAX_SHARE_URL_LENGTH) {
+                showShareNotice("Too long to share as a link")
+                return
+            }
+            await navigator.clipboard.writeText(url)
+            showShareNotice("Link copied")
+        } catch (e) {
+            console.error("Failed to copy share link", e)
+            showShareNotice("Couldn't copy the link")
+        }
+    }
+
+    /**
+     * Copies the shared transcript into the visitor's chat. With threads on
+     * the current chat is saved and the transcript opens as a new thread;
+     * otherwise it replaces the current chat, so a chat with questions in it
+     * needs a second press. The fragment is dropped so a reload doesn't
+     * replay it.
+     */
+    const handleContinueSharedChat = async () => {
+        const shared = sharedReplay
+        if (!shared || isLoading) return
+        if (
+            !threadsEnabled &&
+            !confirmReplaceChat &&
+            messages.some((m) => m.role === "user")
+        ) {
+            setConfirmReplaceChat(true)
+            return
+        }
+        setConfirmReplaceChat(false)
+        if (threadsEnabled) await persistThread()
+        openThread(threadsEnabled ? newStorageId() : threadId, {
+            messages: shared,
+            suggestions: [],
+        })
+        lastPersistedRef.current = null
+        setSharedReplay(null)
+        clearShareFragment()
+    }
+
+    // -------------------------------------------------------------------------
+    // Transcript Search
+    // -------------------------------------------------------------------------
+
+    /** Rendered matches in document order. */
+    const getSearchMarks = (): HTMLElement[] =>
+        Array.from(
+            scrollContainerRef.current?.querySelectorAll<HTMLElement>(
+                `mark.${SEARCH_MATCH_CLASS}`
+            ) ?? []
+        )
+
+    // A new query starts again from the first match
+    useEffect(() => {
+        setActiveSearchMatch(0)
+        if (highlightQuery) {
+            getSearchMarks()[0]?.scrollIntoView({ block: "center" })
+        }
+    }, [highlightQuery])
+
+    // Runs after every render: the transcript can change under an open
+    // search, so recount the marks and re-tag the active one each time
+    useEffect(() => {
+        if (!highlightQuery) return
+        const marks = getSearchMarks()
+        setSearchMatchCount(marks.length)
+        if (marks.length && activeSearchMatch >= marks.length) {
+            setActiveSearchMatch(marks.length - 1)
         }
+        marks.forEach((mark, i) =>
+            mark.toggleAttribute("data-active", i === activeSearchMatch)
+        )
+    })
+
+    const stepSearchMatch = (direction: 1 | -1) => {
+        const marks = getSearchMarks()
+        if (!marks.length) return
+        const next = (activeSearchMatch + direction + marks.length) % marks.length
+        setActiveSearchMatch(next)
+        marks[next].scrollIntoView({ block: "center", behavior: "smooth" })
+    }
+
+    const handleCloseSearch = () => {
+        setSearchOpen(false)
+        setSearchQuery("")
     }
 
     const handleInput = (
@@ -2962,13 +7962,18 @@ export default function ChatOverlay(props: ChatOverlayProps) {
         utteranceRef.current = null
     }
 
+    // Desktop threads get a side column; the chat keeps its width
+    const showThreadSidebar = threadsEnabled && !isMobileView && !sharedReplay
     const finalDesktopPosStyle: CSSProperties = {
-        width: 760,
+        width: 760 + (showThreadSidebar ? THREAD_SIDEBAR_WIDTH : 0),
         height: 540,
         maxHeight: "calc(100vh - 48px)",
         bottom: `${expandedViewBottomOffset}px`,
         left: "50%",
         borderRadius: `${universalBorderRadius}px`,
+        ...(showThreadSidebar
+            ? { paddingLeft: THREAD_SIDEBAR_WIDTH, boxSizing: "border-box" }
+            : {}),
     }
 
     const finalMobilePosStyle: CSSProperties = {
@@ -3038,6 +8043,505 @@ export default function ChatOverlay(props: ChatOverlayProps) {
                 : "14px",
     }
 
+    const lastReplyUsage = [...messages]
+        .reverse()
+        .find((m) => m.role === "assistant" && m.usage)?.usage
+
+    const structuredRenderStyles: StructuredRenderStyles = {
+        baseTextStyle: markdownBaseTextStyle,
+        linkStyle: markdownLinkStyle,
+        borderColor: iconColor
+            ? iconColor.replace(
+                  /rgba?\((\d+,\s*\d+,\s*\d+)(?:,\s*[\d.]+)?\)/,
+                  "rgba($1, 0.15)"
+              )
+            : "rgba(0,0,0,0.15)",
+        borderRadius: Math.min(universalBorderRadius, 16),
+    }
+
+    // Thought summaries, open while the model is still thinking and
+    // collapsed once the answer starts
+    const renderThinkingBlock = (thoughts: string, isThinking: boolean) => (
+        <details
+            data-layer="thinking-block"
+            open={isThinking || undefined}
+            style={{ ...errorFontStyle, alignSelf: "stretch", color: iconColor }}
+        >
+            <summary style={{ cursor: "pointer" }}>
+                {isThinking ? "Thinking…" : "Thoughts"}
+            </summary>
+            <div style={{ marginTop: 8, opacity: 0.8 }}>
+                {renderSimpleMarkdown(
+                    thoughts,
+                    { ...markdownBaseTextStyle, ...errorFontStyle, color: iconColor },
+                    markdownLinkStyle
+                )}
+            </div>
+        </details>
+    )
+
+    // Collapsed "Used tool X" rows; expanding one shows its arguments and result
+    const renderToolCallRows = (toolCalls: ToolCallRecord[]) => (
+        <div
+            data-layer="tool-call-rows"
+            style={{
+                alignSelf: "stretch",
+                display: "flex",
+                flexDirection: "column",
+                gap: 4,
+            }}
+        >
+            {toolCalls.map((call, callIndex) => (
+                <details
+                    key={`tool-${call.step}-${callIndex}`}
+                    data-layer="tool-call-row"
+                    style={{ ...errorFontStyle, color: iconColor }}
+                >
+                    <summary style={{ cursor: "pointer" }}>
+                        {call.response === undefined
+                            ? `Using tool ${call.name}…`
+                            : `Used tool ${call.name}`}
+                    </summary>
+                    <pre className="chat-markdown-code-block">
+                        {JSON.stringify(
+                            call.response === undefined
+                                ? { args: call.args }
+                                : { args: call.args, response: call.response },
+                            null,
+                            2
+                        )}
+                    </pre>
+                </details>
+            ))}
+        </div>
+    )
+
+    // Numbered source list under a grounded answer. Google requires the
+    // Search suggestions chip to be shown as-is alongside grounded results.
+    const renderGroundingSources = (grounding: GroundingInfo) => (
+        <div
+            data-layer="grounding-sources"
+            style={{
+                ...errorFontStyle,
+                alignSelf: "stretch",
+                display: "flex",
+                flexDirection: "column",
+                gap: 4,
+                color: iconColor,
+            }}
+        >
+            {grounding.sources.some((source) => safeLinkHref(source.uri)) && (
+                <>
+                    <div style={{ fontWeight: 600 }}>Sources</div>
+                    <ol style={{ margin: 0, paddingLeft: 20 }}>
+                        {grounding.sources.map((source, sourceIndex) =>
+                            safeLinkHref(source.uri) ? (
+                                <li key={`source-${sourceIndex}`} value={sourceIndex + 1}>
+                                    <a
+                                        href={safeLinkHref(source.uri)}
+                                        target="_blank"
+                                        rel="noopener noreferrer"
+                                        style={markdownLinkStyle}
+                                    >
+                                        {source.title}
+                                    </a>
+                                </li>
+                            ) : null
+                        )}
+                    </ol>
+                </>
+            )}
+            {grounding.searchEntryPointHtml && (
+                // No allow-scripts: the markup can't run code, and same-origin
+                // only lets onLoad measure the content to size the frame
+                <iframe
+                    data-layer="search-suggestions"
+                    title="Google Search suggestions"
+                    sandbox="allow-same-origin allow-popups allow-popups-to-escape-sandbox"
+                    srcDoc={buildSearchSuggestionsDocument(
+                        grounding.searchEntryPointHtml
+                    )}
+                    onLoad={(e) => {
+                        const frame = e.currentTarget
+                        const height =
+                            frame.contentDocument?.documentElement.scrollHeight
+                        if (height) frame.style.height = `${height}px`
+                    }}
+                    style={{
+                        width: "100%",
+                        height: 48,
+                        border: "none",
+                        colorScheme: "normal",
+                    }}
+                />
+            )}
+        </div>
+    )
+
+    // "‹ 2/3 ›" control for answer variants and edited-turn branches
+    const renderVersionSwitcher = (
+        dataLayer: string,
+        activeIndex: number,
+        count: number,
+        onSelect: (index: number) => void
+    ) => {
+        const arrowStyle: CSSProperties = {
+            background: "none",
+            border: "none",
+            padding: "0 4px",
+            color: "inherit",
+            font: "inherit",
+            cursor: "pointer",
+        }
+        return (
+            <div
+                data-layer={dataLayer}
+                style={{
+                    ...errorFontStyle,
+                    display: "flex",
+                    alignItems: "center",
+                    gap: 4,
+                    color: iconColor,
+                    opacity: 0.6,
+                }}
+            >
+                <button
+                    aria-label="Previous version"
+                    disabled={isLoading || activeIndex === 0}
+                    onClick={() => onSelect(activeIndex - 1)}
+                    style={arrowStyle}
+                >
+                    ‹
+                </button>
+                <span>
+                    {activeIndex + 1}/{count}
+                </span>
+                <button
+                    aria-label="Next version"
+                    disabled={isLoading || activeIndex === count - 1}
+                    onClick={() => onSelect(activeIndex + 1)}
+                    style={arrowStyle}
+                >
+                    ›
+                </button>
+            </div>
+        )
+    }
+
+    // The open thread is listed even before its first save
+    const threadEntries: ConversationSummary[] = threads.some(
+        (thread) => thread.id === threadId
+    )
+        ? threads
+        : [
+              { id: threadId, title: "", preview: "", createdAt: 0, updatedAt: 0 },
+              ...threads,
+          ]
+    const activeThread = threadEntries.find((thread) => thread.id === threadId)
+
+    /** Thread list for the desktop side column and the mobile sheet. */
+    const renderThreadList = () => {
+        const mutedIconColor = iconColor
+            ? iconColor.replace(
+                  /rgba?\((\d+,\s*\d+,\s*\d+)(?:,\s*[\d.]+)?\)/,
+                  "rgba($1, 0.45)"
+              )
+            : "rgba(0,0,0,0.45)"
+        const iconButtonStyle: CSSProperties = {
+            background: "none",
+            border: "none",
+            padding: 4,
+            cursor: "pointer",
+            display: "flex",
+            alignItems: "center",
+            flexShrink: 0,
+        }
+        return (
+            <div
+                data-layer="thread-list"
+                style={{
+                    ...errorFontStyle,
+                    color: props.textColor,
+                    display: "flex",
+                    flexDirection: "column",
+                    gap: 4,
+                    minHeight: 0,
+                    height: "100%",
+                }}
+            >
+                <button
+                    data-layer="new-thread-button"
+                    onClick={handleNewChat}
+                    style={{
+                        ...suggestedReplyButtonStyle,
+                        justifyContent: "flex-start",
+                        maxWidth: "none",
+                        flexShrink: 0,
+                        marginBottom: 4,
+                    }}
+                >
+                    + New chat
+                </button>
+                <div
+                    style={{
+                        overflowY: "auto",
+                        display: "flex",
+                        flexDirection: "column",
+                        gap: 2,
+                        minHeight: 0,
+                    }}
+                >
+                    {threadEntries.map((thread) => {
+                        const isOpen = thread.id === threadId
+                        const isStored = thread.updatedAt > 0
+                        return (
+                            <div
+                                key={thread.id}
+                                data-layer="thread-row"
+                                style={{
+                                    display: "flex",
+                                    alignItems: "center",
+                                    gap: 2,
+                                    padding: "4px 4px 4px 10px",
+                                    borderRadius: `${Math.min(universalBorderRadius, 12)}px`,
+                                    background: isOpen
+                                        ? props.userMessageBackgroundColor
+                                        : "transparent",
+                                }}
+                            >
+                                {renamingThreadId === thread.id ? (
+                                    <input
+                                        data-layer="thread-rename-input"
+                                        aria-label="Chat name"
+                                        autoFocus
+                                        value={renameDraft}
+                                        onChange={(e) =>
+                                            setRenameDraft(e.target.value)
+                                        }
+                                        onBlur={handleSubmitRename}
+                                        onKeyDown={(e) => {
+                                            if (e.key === "Enter") {
+                                                e.preventDefault()
+                                                handleSubmitRename()
+                                            } else if (e.key === "Escape") {
+                                                e.stopPropagation()
+                                                setRenamingThreadId(null)
+                                            }
+                                        }}
+                                        style={{
+                                            ...errorFontStyle,
+                                            color: props.textColor,
+                                            flex: 1,
+                                            minWidth: 0,
+                                            background: "transparent",
+                                            border: "none",
+                                            outline: "none",
+                                            padding: "4px 0",
+                                        }}
+                                    />
+                                ) : (
+                                    <button
+                                        data-layer="thread-title"
+                                        aria-current={isOpen ? "true" : undefined}
+                                        disabled={isLoading && !isOpen}
+                                        onClick={() =>
+                                            handleSelectThread(thread.id)
+                                        }
+                                        title={
+                                            isStored
+                                                ? `${threadLabel(thread)}\nStarted ${new Date(thread.createdAt).toLocaleDateString()}`
+                                                : threadLabel(thread)
+                                        }
+                                        style={{
+                                            ...errorFontStyle,
+                                            color: "inherit",
+                                            flex: 1,
+                                            minWidth: 0,
+                                            textAlign: "left",
+                                            background: "none",
+                                            border: "none",
+                                            padding: "4px 0",
+                                            cursor: "pointer",
+                                            overflow: "hidden",
+                                            textOverflow: "ellipsis",
+                                            whiteSpace: "nowrap",
+                                        }}
+                                    >
+                                        {threadLabel(thread)}
+                                    </button>
+                                )}
+                                {isStored && renamingThreadId !== thread.id && (
+                                    <button
+                                        data-layer="rename-thread-button"
+                                        aria-label="Rename chat"
+                                        onClick={() => handleStartRename(thread)}
+                                        style={iconButtonStyle}
+                                    >
+                                        <svg
+                                            width="14"
+                                            height="14"
+                                            viewBox="0 0 14 14"
+                                            fill="none"
+                                        >
+                                            <path
+                                                d="M9.625 1.75L12.25 4.375M1.75 12.25L2.33333 9.625L9.91667 2.04167C10.3 1.65833 10.9222 1.65833 11.3056 2.04167L11.9583 2.69444C12.3417 3.07778 12.3417 3.7 11.9583 4.08333L4.375 11.6667L1.75 12.25Z"
+                                                stroke={mutedIconColor}
+                                                strokeWidth="1.4"
+                                                strokeLinecap="round"
+                                                strokeLinejoin="round"
+                                            />
+                                        </svg>
+                                    </button>
+                                )}
+                                {isStored && renamingThreadId !== thread.id && (
+                                    <button
+                                        data-layer="delete-thread-button"
+                                        aria-label={
+                                            confirmDeleteThreadId === thread.id
+                                                ? "Confirm delete"
+                                                : "Delete chat"
+                                        }
+                                        disabled={isOpen && isLoading}
+                                        onClick={() =>
+                                            handleDeleteThread(thread.id)
+                                        }
+                                        onBlur={() =>
+                                            setConfirmDeleteThreadId(null)
+                                        }
+                                        style={{
+                                            ...iconButtonStyle,
+                                            ...errorFontStyle,
+                                            color: mutedIconColor,
+                                        }}
+                                    >
+                                        {confirmDeleteThreadId === thread.id ? (
+                                            "Delete?"
+                                        ) : (
+                                            <svg
+                                                width="14"
+                                                height="14"
+                                                viewBox="0 0 14 14"
+                                                fill="none"
+                                            >
+                                                <path
+                                                    d="M2.33333 3.5H11.6667M5.83333 6.41667V9.91667M8.16667 6.41667V9.91667M3.5 3.5L4.08333 11.0833C4.08333 11.7277 4.60567 12.25 5.25 12.25H8.75C9.39433 12.25 9.91667 11.7277 9.91667 11.0833L10.5 3.5M5.25 3.5V2.33333C5.25 2.01117 5.51117 1.75 5.83333 1.75H8.16667C8.48883 1.75 8.75 2.01117 8.75 2.33333V3.5"
+                                                    stroke={mutedIconColor}
+                                                    strokeWidth="1.4"
+                                                    strokeLinecap="round"
+                                                    strokeLinejoin="round"
+                                                />
+                                            </svg>
+                                        )}
+                                    </button>
+                                )}
+                            </div>
+                        )
+                    })}
+                </div>
+            </div>
+        )
+    }
+
+    // The answer being streamed: below the transcript for a new turn, or in
+    // place of the message being regenerated
+    const renderStreamingReply = (key?: string) => (
+        <div
+            key={key}
+            data-layer="streaming-assistant-response"
+            style={{
+                alignSelf: "stretch",
+                display: "flex",
+                flexDirection: "column",
+                alignItems: "flex-start",
+                gap: 12,
+            }}
+        >
+            {isLoading && (!streamed || isStructuredMode) && (
+                <div
+                    data-svg-wrapper
+                    data-layer="pre-streaming-loading-indicator"
+                    style={{
+                        animation: isLoading
+                            ? "pulseStar 1.5s infinite ease-in-out"
+                            : "none",
+                    }}
+                >
+                    {safeLoadingIconUrl ? (
+                        <img
+                            src={safeLoadingIconUrl}
+                            alt="Loading..."
+                            style={{
+                                width: 20,
+                                height: 20,
+                            }}
+                        />
+                    ) : (
+                        <svg
+                            width="20"
+                            height="20"
+                            viewBox="0 0 20 20"
+                            fill="none"
+                            xmlns="[http://www.w3.org/2000/svg](http://www.w3.org/2000/svg)"
+                        >
+                            <g clipPath="url(#clipLoadAnimExpandedFull)">
+                                <path
+                                    d="M9.291 1.32935C9.59351 0.762163 10.4065 0.762164 10.709 1.32935L13.4207 6.41384C13.4582 6.48418 13.5158 6.54176 13.5861 6.57927L18.6706 9.29099C19.2378 9.59349 19.2378 10.4065 18.6706 10.709L13.5861 13.4207C13.5158 13.4582 13.4582 13.5158 13.4207 13.5862L10.709 18.6706C10.4065 19.2378 9.59351 19.2378 9.291 18.6706L6.57927 13.5862C6.54176 13.5158 6.48417 13.4582 6.41384 13.4207L1.32934 10.709C0.762155 10.4065 0.762157 9.59349 1.32935 9.29099L6.41384 6.57927C6.48417 6.54176 6.54176 6.48418 6.57927 6.41384L9.291 1.32935Z"
+                                    fill={props.iconColor}
+                                />
+                            </g>
+                            <defs>
+                                <clipPath id="clipLoadAnimExpandedFull">
+                                    <rect
+                                        width="20"
+                                        height="20"
+                                        fill="white"
+                                    />
+                                </clipPath>
+                            </defs>
+                        </svg>
+                    )}
+                </div>
+            )}
+            {streamedThoughts &&
+                renderThinkingBlock(
+                    streamedThoughts,
+                    isLoading && !streamed
+                )}
+            {streamedToolCalls.length > 0 &&
+                renderToolCallRows(streamedToolCalls)}
+            {isLoading && !streamed && retryState && (
+                <div
+                    data-layer="retrying-indicator"
+                    aria-live="polite"
+                    style={{
+                        ...errorFontStyle,
+                        color: iconColor,
+                    }}
+                >
+                    {retryState.fallback
+                        ? `Retrying with ${retryState.model}…`
+                        : "Retrying…"}
+                </div>
+            )}
+            {/* Partial JSON is not shown; the reply renders once complete */}
+            {streamed && !isStructuredMode && (
+                <div
+                    data-layer="streamed-text"
+                    style={{
+                        alignSelf: "stretch",
+                        maxWidth: "100%",
+                    }}
+                >
+                    {renderSimpleMarkdown(
+                        streamed,
+                        markdownBaseTextStyle,
+                        markdownLinkStyle
+                    )}
+                </div>
+            )}
+        </div>
+    )
+
     // Determine which suggestions to show in expanded view
     const commonSuggestionDisplayConditions =
         expanded && !isLoading && !imageFile
@@ -3064,7 +8568,8 @@ export default function ChatOverlay(props: ChatOverlayProps) {
             : allDefaultSuggestions.slice(0, 3)
     }
 
-    const showSuggestionsArea = displayedSuggestions.length > 0
+    const showSuggestionsArea =
+        !sharedReplay && displayedSuggestions.length > 0
 
     const suggestedReplyButtonStyle: CSSProperties = {
         ...globalFontStyles,
@@ -3130,6 +8635,26 @@ export default function ChatOverlay(props: ChatOverlayProps) {
         position: "relative",
     }
 
+    const searchBarButtonStyle: CSSProperties = {
+        ...errorFontStyle,
+        color: iconColor,
+        background: "none",
+        border: "none",
+        padding: "0 4px",
+        cursor: "pointer",
+    }
+
+    const exportMenuItemStyle: CSSProperties = {
+        ...errorFontStyle,
+        color: props.textColor,
+        background: "none",
+        border: "none",
+        borderRadius: `${Math.min(universalBorderRadius, 8)}px`,
+        padding: "8px 10px",
+        textAlign: "left",
+        cursor: "pointer",
+    }
+
     const dragIndicatorBarStyle: CSSProperties = {
         width: "100%",
         height: 16,
@@ -3295,15 +8820,405 @@ export default function ChatOverlay(props: ChatOverlayProps) {
                             fill="none"
                             xmlns="[http://www.w3.org/2000/svg](http://www.w3.org/2000/svg)"
                         >
-                            <rect
-                                width="32"
-                                height="5"
-                                rx={Math.min(universalBorderRadius, 4)}
-                                fill={props.iconColor}
-                                style={{ opacity: 0.65 }}
+                            <rect
+                                width="32"
+                                height="5"
+                                rx={Math.min(universalBorderRadius, 4)}
+                                fill={props.iconColor}
+                                style={{ opacity: 0.65 }}
+                            />
+                        </svg>
+                    </div>
+
+                    {!showThreadSidebar && !sharedReplay && (
+                        <button
+                            data-layer="new-chat-button"
+                            aria-label="New chat"
+                            title="New chat"
+                            onClick={handleNewChat}
+                            style={{
+                                position: "absolute",
+                                top: 2,
+                                left: 8,
+                                zIndex: 2,
+                                width: 28,
+                                height: 22,
+                                background: "none",
+                                border: "none",
+                                padding: 0,
+                                display: "flex",
+                                alignItems: "center",
+                                justifyContent: "center",
+                                borderRadius: `${Math.min(universalBorderRadius, 8)}px`,
+                                cursor: "pointer",
+                                opacity: 0.65,
+                            }}
+                        >
+                            <svg
+                                width="16"
+                                height="16"
+                                viewBox="0 0 16 16"
+                                fill="none"
+                            >
+                                <path
+                                    d="M7.5 2.5H4C3.17157 2.5 2.5 3.17157 2.5 4V12C2.5 12.8284 3.17157 13.5 4 13.5H12C12.8284 13.5 13.5 12.8284 13.5 12V8.5M11.5 2L14 4.5M7 9.5L7.5 7.5L12.25 2.75C12.6642 2.33579 13.3358 2.33579 13.75 2.75C14.1642 3.16421 14.1642 3.83579 13.75 4.25L9 9L7 9.5Z"
+                                    stroke={iconColor}
+                                    strokeWidth="1.4"
+                                    strokeLinecap="round"
+                                    strokeLinejoin="round"
+                                />
+                            </svg>
+                        </button>
+                    )}
+                    {shareNotice && (
+                        <div
+                            data-layer="share-notice"
+                            role="status"
+                            style={{
+                                ...errorFontStyle,
+                                position: "absolute",
+                                top: 4,
+                                right: enableSearch ? 76 : 44,
+                                zIndex: 2,
+                                color: iconColor,
+                            }}
+                        >
+                            {shareNotice}
+                        </div>
+                    )}
+                    {enableSearch && (
+                        <button
+                            data-layer="search-button"
+                            aria-label="Search this chat"
+                            aria-pressed={searchOpen}
+                            onClick={() =>
+                                searchOpen
+                                    ? handleCloseSearch()
+                                    : setSearchOpen(true)
+                            }
+                            style={{
+                                position: "absolute",
+                                top: 2,
+                                right: showChatMenu ? 40 : 8,
+                                zIndex: 2,
+                                width: 28,
+                                height: 22,
+                                background: "none",
+                                border: "none",
+                                padding: 0,
+                                display: "flex",
+                                alignItems: "center",
+                                justifyContent: "center",
+                                borderRadius: `${Math.min(universalBorderRadius, 8)}px`,
+                                cursor: "pointer",
+                                opacity: searchOpen ? 1 : 0.65,
+                            }}
+                        >
+                            <svg
+                                width="16"
+                                height="16"
+                                viewBox="0 0 16 16"
+                                fill="none"
+                            >
+                                <circle
+                                    cx="7"
+                                    cy="7"
+                                    r="4.5"
+                                    stroke={iconColor}
+                                    strokeWidth="1.4"
+                                />
+                                <path
+                                    d="M10.5 10.5L13.5 13.5"
+                                    stroke={iconColor}
+                                    strokeWidth="1.4"
+                                    strokeLinecap="round"
+                                />
+                            </svg>
+                        </button>
+                    )}
+                    {showChatMenu && (
+                        <button
+                            data-layer="export-menu-button"
+                            aria-label="Chat options"
+                            aria-haspopup="menu"
+                            aria-expanded={exportMenuOpen}
+                            onClick={() => setExportMenuOpen((open) => !open)}
+                            style={{
+                                position: "absolute",
+                                top: 2,
+                                right: 8,
+                                zIndex: 2,
+                                width: 28,
+                                height: 22,
+                                background: "none",
+                                border: "none",
+                                borderRadius: `${Math.min(universalBorderRadius, 8)}px`,
+                                color: iconColor,
+                                opacity: 0.65,
+                                cursor: "pointer",
+                                fontSize: 18,
+                                lineHeight: "18px",
+                                padding: 0,
+                            }}
+                        >
+                            ⋯
+                        </button>
+                    )}
+                    {enableExport && (
+                        <input
+                            ref={importInputRef}
+                            type="file"
+                            accept="application/json,.json"
+                            onChange={handleImportFile}
+                            style={{ display: "none" }}
+                        />
+                    )}
+                    {showChatMenu && exportMenuOpen && (
+                        <Fragment>
+                            <div
+                                data-layer="export-menu-backdrop"
+                                onClick={() => setExportMenuOpen(false)}
+                                style={{
+                                    position: "absolute",
+                                    inset: 0,
+                                    zIndex: 4,
+                                }}
+                            />
+                            <div
+                                data-layer="export-menu"
+                                role="menu"
+                                onKeyDown={(e) => {
+                                    if (e.key === "Escape") {
+                                        e.stopPropagation()
+                                        setExportMenuOpen(false)
+                                    }
+                                }}
+                                style={{
+                                    position: "absolute",
+                                    top: 28,
+                                    right: 8,
+                                    zIndex: 5,
+                                    minWidth: 220,
+                                    padding: 6,
+                                    display: "flex",
+                                    flexDirection: "column",
+                                    background: expandedInputAreaBackground,
+                                    borderRadius: `${Math.min(universalBorderRadius, 12)}px`,
+                                    boxShadow: "0px 8px 24px rgba(0, 0, 0, 0.12)",
+                                }}
+                            >
+                                {shareLinksEnabled && (
+                                    <button
+                                        role="menuitem"
+                                        disabled={
+                                            !messages.some(
+                                                (m) => m.role === "user"
+                                            )
+                                        }
+                                        onClick={handleCopyShareLink}
+                                        style={exportMenuItemStyle}
+                                    >
+                                        Copy share link
+                                    </button>
+                                )}
+                                {(enableExport ? EXPORT_MENU_ITEMS : []).map(
+                                    ([format, label]) => (
+                                        <button
+                                            key={format}
+                                            role="menuitem"
+                                            disabled={
+                                                !messages.some(
+                                                    (m) => m.role === "user"
+                                                )
+                                            }
+                                            onClick={() => handleExport(format)}
+                                            style={exportMenuItemStyle}
+                                        >
+                                            {label}
+                                        </button>
+                                    )
+                                )}
+                                {enableExport && (
+                                    <button
+                                        role="menuitem"
+                                        disabled={isLoading}
+                                        onClick={() => {
+                                            setExportMenuOpen(false)
+                                            importInputRef.current?.click()
+                                        }}
+                                        style={exportMenuItemStyle}
+                                    >
+                                        Import JSON…
+                                    </button>
+                                )}
+                            </div>
+                        </Fragment>
+                    )}
+
+                    {showThreadSidebar && (
+                        <div
+                            data-layer="thread-sidebar"
+                            style={{
+                                position: "absolute",
+                                top: 0,
+                                bottom: 0,
+                                left: 0,
+                                width: THREAD_SIDEBAR_WIDTH,
+                                boxSizing: "border-box",
+                                padding: 12,
+                                borderRight: `1px solid ${iconColor ? iconColor.replace(/rgba?\((\d+,\s*\d+,\s*\d+)(?:,\s*[\d.]+)?\)/, "rgba($1, 0.12)") : "rgba(0,0,0,0.12)"}`,
+                            }}
+                        >
+                            {renderThreadList()}
+                        </div>
+                    )}
+
+                    {threadsEnabled && isMobileView && !sharedReplay && (
+                        <button
+                            data-layer="thread-sheet-button"
+                            aria-label="Show chats"
+                            aria-expanded={threadSheetOpen}
+                            onClick={() => setThreadSheetOpen(true)}
+                            style={{
+                                ...errorFontStyle,
+                                color: iconColor,
+                                background: "none",
+                                border: "none",
+                                padding: "0 16px 4px",
+                                display: "flex",
+                                alignItems: "center",
+                                gap: 6,
+                                flexShrink: 0,
+                                cursor: "pointer",
+                                minWidth: 0,
+                            }}
+                        >
+                            <span aria-hidden="true">☰</span>
+                            <span
+                                style={{
+                                    overflow: "hidden",
+                                    textOverflow: "ellipsis",
+                                    whiteSpace: "nowrap",
+                                }}
+                            >
+                                {threadLabel(activeThread)}
+                            </span>
+                        </button>
+                    )}
+
+                    {enableSearch && searchOpen && (
+                        <div
+                            data-layer="search-bar"
+                            role="search"
+                            style={{
+                                display: "flex",
+                                alignItems: "center",
+                                gap: 4,
+                                margin: "0 16px 4px",
+                                padding: "2px 4px 2px 10px",
+                                flexShrink: 0,
+                                borderRadius: `${Math.min(universalBorderRadius, 12)}px`,
+                                background: props.userMessageBackgroundColor,
+                            }}
+                        >
+                            <input
+                                data-layer="search-input"
+                                aria-label="Search this chat"
+                                placeholder="Search this chat"
+                                autoFocus
+                                value={searchQuery}
+                                onChange={(e) => setSearchQuery(e.target.value)}
+                                onKeyDown={(e) => {
+                                    if (e.key === "Enter") {
+                                        e.preventDefault()
+                                        stepSearchMatch(e.shiftKey ? -1 : 1)
+                                    } else if (e.key === "Escape") {
+                                        e.stopPropagation()
+                                        handleCloseSearch()
+                                    }
+                                }}
+                                style={{
+                                    ...errorFontStyle,
+                                    color: props.textColor,
+                                    flex: 1,
+                                    minWidth: 0,
+                                    background: "transparent",
+                                    border: "none",
+                                    outline: "none",
+                                    padding: "4px 0",
+                                }}
                             />
-                        </svg>
-                    </div>
+                            {highlightQuery && (
+                                <span
+                                    data-layer="search-match-count"
+                                    aria-live="polite"
+                                    style={{
+                                        ...errorFontStyle,
+                                        color: iconColor,
+                                        whiteSpace: "nowrap",
+                                    }}
+                                >
+                                    {searchMatchCount
+                                        ? `${Math.min(activeSearchMatch + 1, searchMatchCount)}/${searchMatchCount}`
+                                        : "No matches"}
+                                </span>
+                            )}
+                            <button
+                                aria-label="Previous match"
+                                disabled={!highlightQuery || !searchMatchCount}
+                                onClick={() => stepSearchMatch(-1)}
+                                style={searchBarButtonStyle}
+                            >
+                                ↑
+                            </button>
+                            <button
+                                aria-label="Next match"
+                                disabled={!highlightQuery || !searchMatchCount}
+                                onClick={() => stepSearchMatch(1)}
+                                style={searchBarButtonStyle}
+                            >
+                                ↓
+                            </button>
+                            <button
+                                aria-label="Close search"
+                                onClick={handleCloseSearch}
+                                style={searchBarButtonStyle}
+                            >
+                                ✕
+                            </button>
+                        </div>
+                    )}
+
+                    {showUsageReadout && (
+                        <div
+                            data-layer="usage-readout"
+                            aria-label="Token usage"
+                            style={{
+                                fontFamily:
+                                    "'Menlo', 'Monaco', 'Courier New', monospace",
+                                fontSize: 11,
+                                lineHeight: 1.5,
+                                color: iconColor,
+                                padding: "4px 16px",
+                                whiteSpace: "pre",
+                                overflowX: "auto",
+                                flexShrink: 0,
+                            }}
+                        >
+                            {[
+                                `session ${formatTokenUsage(usageTotals.session)}`,
+                                `today   ${formatTokenUsage(usageTotals.today.tokens)} · ${usageTotals.today.count} msgs · ` +
+                                    (dailyLimitMode === "tokens"
+                                        ? `${totalTokens(usageTotals.today.tokens).toLocaleString()}/${dailyTokenLimit.toLocaleString()} tokens`
+                                        : `${usageTotals.today.count}/${DAILY_MESSAGE_LIMIT} msgs`),
+                                lastReplyUsage
+                                    ? `last    ${formatTokenUsage(lastReplyUsage)}`
+                                    : null,
+                            ]
+                                .filter(Boolean)
+                                .join("\n")}
+                        </div>
+                    )}
 
                     <div
                         ref={scrollContainerRef}
@@ -3311,9 +9226,9 @@ export default function ChatOverlay(props: ChatOverlayProps) {
                         data-layer="messages-scroll-container"
                         style={messagesScrollContainerStyle}
                     >
-                        {messages
+                        {(sharedReplay || messages)
                             .filter((m) => m.role !== "system")
-                            .map((message, msgIndex) => {
+                            .map((message, msgIndex, visibleMessages) => {
                                 const isUser = message.role === "user"
                                 const isAssistant = message.role === "assistant"
 
@@ -3391,6 +9306,7 @@ export default function ChatOverlay(props: ChatOverlayProps) {
                                             key={`user-${msgIndex}`}
                                             data-layer="user-input-message"
                                             style={{
+                                                opacity: message.blocked ? 0.5 : 1,
                                                 alignSelf: "flex-end",
                                                 display: "flex",
                                                 flexDirection: "column",
@@ -3528,39 +9444,216 @@ export default function ChatOverlay(props: ChatOverlayProps) {
                                                     </div>
                                                 </div>
                                             )}
-                                            {userTextContent && (
+                                            {message === editingMessage ? (
                                                 <div
-                                                    data-layer="user-message-bubble"
+                                                    data-layer="user-message-editor"
                                                     style={{
-                                                        maxWidth: 336,
-                                                        paddingLeft: 12,
-                                                        paddingRight: 12,
-                                                        paddingTop: 8,
-                                                        paddingBottom: 8,
-                                                        background:
-                                                            props.userMessageBackgroundColor,
-                                                        borderRadius: `${universalBorderRadius}px`,
-                                                        display: "inline-flex",
+                                                        alignSelf: "stretch",
+                                                        display: "flex",
+                                                        flexDirection: "column",
+                                                        alignItems: "flex-end",
+                                                        gap: 8,
                                                     }}
                                                 >
-                                                    <div
-                                                        data-layer="user-message-text"
+                                                    <textarea
+                                                        aria-label="Edit message"
+                                                        autoFocus
+                                                        value={editDraft}
+                                                        rows={Math.min(
+                                                            8,
+                                                            editDraft.split("\n")
+                                                                .length
+                                                        )}
+                                                        onChange={(e) =>
+                                                            setEditDraft(
+                                                                e.target.value
+                                                            )
+                                                        }
+                                                        onKeyDown={(e) => {
+                                                            if (
+                                                                e.key ===
+                                                                    "Enter" &&
+                                                                !e.shiftKey
+                                                            ) {
+                                                                e.preventDefault()
+                                                                handleSubmitEdit()
+                                                            } else if (
+                                                                e.key ===
+                                                                "Escape"
+                                                            ) {
+                                                                handleCancelEdit()
+                                                            }
+                                                        }}
                                                         style={{
                                                             ...globalFontStyles,
                                                             color: props.textColor,
-                                                            wordWrap:
-                                                                "break-word",
-                                                            whiteSpace:
-                                                                "pre-wrap",
+                                                            width: 336,
+                                                            maxWidth: "100%",
+                                                            boxSizing:
+                                                                "border-box",
+                                                            paddingLeft: 12,
+                                                            paddingRight: 12,
+                                                            paddingTop: 8,
+                                                            paddingBottom: 8,
+                                                            background:
+                                                                props.userMessageBackgroundColor,
+                                                            border: "none",
+                                                            outline: "none",
+                                                            resize: "none",
+                                                            borderRadius: `${universalBorderRadius}px`,
+                                                        }}
+                                                    />
+                                                    <div
+                                                        style={{
+                                                            display: "flex",
+                                                            gap: 8,
                                                         }}
                                                     >
-                                                        {userTextContent}
+                                                        <button
+                                                            data-layer="cancel-edit-button"
+                                                            onClick={
+                                                                handleCancelEdit
+                                                            }
+                                                            style={
+                                                                suggestedReplyButtonStyle
+                                                            }
+                                                        >
+                                                            Cancel
+                                                        </button>
+                                                        <button
+                                                            data-layer="submit-edit-button"
+                                                            disabled={
+                                                                isLoading ||
+                                                                !editDraft.trim()
+                                                            }
+                                                            onClick={
+                                                                handleSubmitEdit
+                                                            }
+                                                            style={
+                                                                suggestedReplyButtonStyle
+                                                            }
+                                                        >
+                                                            Send
+                                                        </button>
                                                     </div>
                                                 </div>
+                                            ) : (
+                                                userTextContent && (
+                                                    <div
+                                                        data-layer="user-message-bubble"
+                                                        style={{
+                                                            maxWidth: 336,
+                                                            paddingLeft: 12,
+                                                            paddingRight: 12,
+                                                            paddingTop: 8,
+                                                            paddingBottom: 8,
+                                                            background:
+                                                                props.userMessageBackgroundColor,
+                                                            borderRadius: `${universalBorderRadius}px`,
+                                                            display: "inline-flex",
+                                                        }}
+                                                    >
+                                                        <div
+                                                            data-layer="user-message-text"
+                                                            style={{
+                                                                ...globalFontStyles,
+                                                                color: props.textColor,
+                                                                wordWrap:
+                                                                    "break-word",
+                                                                whiteSpace:
+                                                                    "pre-wrap",
+                                                            }}
+                                                        >
+                                                            {highlightMatches(
+                                                                userTextContent,
+                                                                highlightQuery,
+                                                                `user-${msgIndex}-hl`
+                                                            )}
+                                                        </div>
+                                                    </div>
+                                                )
                                             )}
+                                            {userTextContent &&
+                                                message !== editingMessage &&
+                                                !isLoading &&
+                                                !sharedReplay && (
+                                                    <div
+                                                        data-layer="user-message-actions"
+                                                        style={{
+                                                            display: "flex",
+                                                            alignItems: "center",
+                                                            gap: 12,
+                                                        }}
+                                                    >
+                                                        {message.branches
+                                                            ?.length > 1 &&
+                                                            renderVersionSwitcher(
+                                                                "branch-switcher",
+                                                                message.activeBranch ??
+                                                                    message
+                                                                        .branches
+                                                                        .length -
+                                                                        1,
+                                                                message.branches
+                                                                    .length,
+                                                                (index) =>
+                                                                    handleSelectBranch(
+                                                                        message,
+                                                                        index
+                                                                    )
+                                                            )}
+                                                        <button
+                                                            data-layer="edit-message-button"
+                                                            aria-label="Edit message"
+                                                            onClick={() =>
+                                                                handleStartEdit(
+                                                                    message
+                                                                )
+                                                            }
+                                                            style={{
+                                                                background:
+                                                                    "none",
+                                                                border: "none",
+                                                                padding: 0,
+                                                                cursor: "pointer",
+                                                            }}
+                                                        >
+                                                            <svg
+                                                                width="14"
+                                                                height="14"
+                                                                viewBox="0 0 14 14"
+                                                                fill="none"
+                                                                xmlns="[http://www.w3.org/2000/svg](http://www.w3.org/2000/svg)"
+                                                            >
+                                                                <path
+                                                                    d="M9.625 1.75L12.25 4.375M1.75 12.25L2.33333 9.625L9.91667 2.04167C10.3 1.65833 10.9222 1.65833 11.3056 2.04167L11.9583 2.69444C12.3417 3.07778 12.3417 3.7 11.9583 4.08333L4.375 11.6667L1.75 12.25Z"
+                                                                    stroke={
+                                                                        props.iconColor
+                                                                            ? props.iconColor.replace(
+                                                                                  /rgba?\((\d+,\s*\d+,\s*\d+)(?:,\s*[\d.]+)?\)/,
+                                                                                  "rgba($1, 0.45)"
+                                                                              )
+                                                                            : "rgba(0,0,0,0.45)"
+                                                                    }
+                                                                    strokeWidth="1.4"
+                                                                    strokeLinecap="round"
+                                                                    strokeLinejoin="round"
+                                                                />
+                                                            </svg>
+                                                        </button>
+                                                    </div>
+                                                )}
                                         </div>
                                     )
                                 } else if (isAssistant) {
+                                    if (
+                                        message === regeneratingMessage &&
+                                        (isLoading || streamed)
+                                    ) {
+                                        return renderStreamingReply(
+                                            `assistant-${msgIndex}`
+                                        )
+                                    }
                                     // Check if this is the last message
                                     const isLastMessage =
                                         msgIndex === messages.length - 1
@@ -3573,6 +9666,19 @@ export default function ChatOverlay(props: ChatOverlayProps) {
                                             welcomeMessage.trim() !== "" &&
                                             (message.content as string) ===
                                                 welcomeMessage)
+                                    // Only answers to a user turn can be re-rolled
+                                    const canRegenerate =
+                                        !sharedReplay &&
+                                        visibleMessages[msgIndex - 1]?.role ===
+                                            "user"
+                                    const variantCount =
+                                        message.variants?.length || 0
+                                    const activeVariant =
+                                        message.activeVariant ?? variantCount - 1
+                                    // Unparseable JSON falls back to markdown
+                                    const structuredData = message.structured
+                                        ? parseStructuredContent(message.content)
+                                        : undefined
 
                                     return (
                                         <div
@@ -3586,6 +9692,28 @@ export default function ChatOverlay(props: ChatOverlayProps) {
                                                 gap: 12,
                                             }}
                                         >
+                                            {sharedReplay && (
+                                                <span
+                                                    data-layer="shared-reply-label"
+                                                    style={{
+                                                        ...errorFontStyle,
+                                                        color: iconColor,
+                                                        opacity: 0.6,
+                                                    }}
+                                                >
+                                                    Shared reply · unverified
+                                                </span>
+                                            )}
+                                            {showThinking &&
+                                                message.thoughts &&
+                                                renderThinkingBlock(
+                                                    message.thoughts,
+                                                    false
+                                                )}
+                                            {message.toolCalls?.length > 0 &&
+                                                renderToolCallRows(
+                                                    message.toolCalls
+                                                )}
                                             <div
                                                 data-layer="assistant-message-text"
                                                 style={{
@@ -3593,12 +9721,31 @@ export default function ChatOverlay(props: ChatOverlayProps) {
                                                     maxWidth: "100%",
                                                 }}
                                             >
-                                                {renderSimpleMarkdown(
-                                                    message.content as string,
-                                                    markdownBaseTextStyle,
-                                                    markdownLinkStyle
-                                                )}
+                                                {structuredData !== undefined
+                                                    ? highlightMatches(
+                                                          renderStructuredResponse(
+                                                              structuredData,
+                                                              structuredDisplay,
+                                                              `structured-${msgIndex}`,
+                                                              structuredRenderStyles
+                                                          ),
+                                                          highlightQuery,
+                                                          `structured-${msgIndex}-hl`
+                                                      )
+                                                    : renderSimpleMarkdown(
+                                                          insertCitationMarkers(
+                                                              message.content as string,
+                                                              message.grounding
+                                                          ),
+                                                          markdownBaseTextStyle,
+                                                          markdownLinkStyle,
+                                                          highlightQuery
+                                                      )}
                                             </div>
+                                            {message.grounding &&
+                                                renderGroundingSources(
+                                                    message.grounding
+                                                )}
                                             <div
                                                 data-layer="assistant-action-icons"
                                                 style={{
@@ -3773,86 +9920,87 @@ export default function ChatOverlay(props: ChatOverlayProps) {
                                                         </svg>
                                                     </button>
                                                 )}
+                                                {canRegenerate && (
+                                                    <button
+                                                        data-layer="regenerate-button"
+                                                        aria-label="Regenerate response"
+                                                        disabled={isLoading}
+                                                        onClick={() =>
+                                                            handleRegenerate(
+                                                                message
+                                                            )
+                                                        }
+                                                        style={{
+                                                            background: "none",
+                                                            border: "none",
+                                                            padding: 0,
+                                                            cursor: isLoading
+                                                                ? "default"
+                                                                : "pointer",
+                                                        }}
+                                                    >
+                                                        <svg
+                                                            width="14"
+                                                            height="14"
+                                                            viewBox="0 0 14 14"
+                                                            fill="none"
+                                                            xmlns="[http://www.w3.org/2000/svg](http://www.w3.org/2000/svg)"
+                                                        >
+                                                            <path
+                                                                d="M12.25 7C12.25 9.89949 9.89949 12.25 7 12.25C4.10051 12.25 1.75 9.89949 1.75 7C1.75 4.10051 4.10051 1.75 7 1.75C8.73 1.75 10.2644 2.58672 11.2206 3.87917M11.375 1.3125V4.08333H8.60417"
+                                                                stroke={
+                                                                    props.iconColor
+                                                                        ? props.iconColor.replace(
+                                                                              /rgba?\((\d+,\s*\d+,\s*\d+)(?:,\s*[\d.]+)?\)/,
+                                                                              "rgba($1, 0.45)"
+                                                                          )
+                                                                        : "rgba(0,0,0,0.45)"
+                                                                }
+                                                                strokeWidth="1.4"
+                                                                strokeLinecap="round"
+                                                                strokeLinejoin="round"
+                                                            />
+                                                        </svg>
+                                                    </button>
+                                                )}
+                                                {enableModelPicker &&
+                                                    message.model && (
+                                                        <span
+                                                            data-layer="message-model-label"
+                                                            style={{
+                                                                ...errorFontStyle,
+                                                                color: iconColor,
+                                                                opacity: 0.6,
+                                                            }}
+                                                        >
+                                                            {pickerOptions.find(
+                                                                (option) =>
+                                                                    option.model.trim() ===
+                                                                    message.model
+                                                            )?.label ||
+                                                                message.model}
+                                                        </span>
+                                                    )}
+                                                {variantCount > 1 &&
+                                                    renderVersionSwitcher(
+                                                        "variant-switcher",
+                                                        activeVariant,
+                                                        variantCount,
+                                                        (index) =>
+                                                            handleSelectVariant(
+                                                                message,
+                                                                index
+                                                            )
+                                                    )}
                                             </div>
                                         </div>
                                     )
                                 }
                                 return null
                             })}
-                        {(isLoading || streamed) && (
-                            <div
-                                data-layer="streaming-assistant-response"
-                                style={{
-                                    alignSelf: "stretch",
-                                    display: "flex",
-                                    flexDirection: "column",
-                                    alignItems: "flex-start",
-                                    gap: 12,
-                                }}
-                            >
-                                {isLoading && !streamed && (
-                                    <div
-                                        data-svg-wrapper
-                                        data-layer="pre-streaming-loading-indicator"
-                                        style={{
-                                            animation: isLoading
-                                                ? "pulseStar 1.5s infinite ease-in-out"
-                                                : "none",
-                                        }}
-                                    >
-                                        {safeLoadingIconUrl ? (
-                                            <img
-                                                src={safeLoadingIconUrl}
-                                                alt="Loading..."
-                                                style={{
-                                                    width: 20,
-                                                    height: 20,
-                                                }}
-                                            />
-                                        ) : (
-                                            <svg
-                                                width="20"
-                                                height="20"
-                                                viewBox="0 0 20 20"
-                                                fill="none"
-                                                xmlns="[http://www.w3.org/2000/svg](http://www.w3.org/2000/svg)"
-                                            >
-                                                <g clipPath="url(#clipLoadAnimExpandedFull)">
-                                                    <path
-                                                        d="M9.291 1.32935C9.59351 0.762163 10.4065 0.762164 10.709 1.32935L13.4207 6.41384C13.4582 6.48418 13.5158 6.54176 13.5861 6.57927L18.6706 9.29099C19.2378 9.59349 19.2378 10.4065 18.6706 10.709L13.5861 13.4207C13.5158 13.4582 13.4582 13.5158 13.4207 13.5862L10.709 18.6706C10.4065 19.2378 9.59351 19.2378 9.291 18.6706L6.57927 13.5862C6.54176 13.5158 6.48417 13.4582 6.41384 13.4207L1.32934 10.709C0.762155 10.4065 0.762157 9.59349 1.32935 9.29099L6.41384 6.57927C6.48417 6.54176 6.54176 6.48418 6.57927 6.41384L9.291 1.32935Z"
-                                                        fill={props.iconColor}
-                                                    />
-                                                </g>
-                                                <defs>
-                                                    <clipPath id="clipLoadAnimExpandedFull">
-                                                        <rect
-                                                            width="20"
-                                                            height="20"
-                                                            fill="white"
-                                                        />
-                                                    </clipPath>
-                                                </defs>
-                                            </svg>
-                                        )}
-                                    </div>
-                                )}
-                                {streamed && (
-                                    <div
-                                        data-layer="streamed-text"
-                                        style={{
-                                            alignSelf: "stretch",
-                                            maxWidth: "100%",
-                                        }}
-                                    >
-                                        {renderSimpleMarkdown(
-                                            streamed,
-                                            markdownBaseTextStyle,
-                                            markdownLinkStyle
-                                        )}
-                                    </div>
-                                )}
-                            </div>
-                        )}
+                        {(isLoading || streamed) &&
+                            !regeneratingMessage &&
+                            renderStreamingReply()}
                         {error && (
                             <div
                                 style={{
@@ -3887,565 +10035,722 @@ export default function ChatOverlay(props: ChatOverlayProps) {
                                         {error}
                                     </div>
                                 </div>
-                            </div>
-                        )}
-                        <div ref={messagesEndRef} style={{ height: 1 }} />
-                    </div>
-
-                    {showSuggestionsArea && (
-                        <div
-                            data-layer="suggested-replies-container"
-                            style={suggestionsContainerStyle}
-                        >
-                            {displayedSuggestions.map((reply, index) => (
-                                <button
-                                    key={`suggested-reply-${index}`}
-                                    style={suggestedReplyButtonStyle}
-                                    onClick={() => handleSuggestionClick(reply)}
-                                    title={reply}
-                                >
-                                    {reply}
-                                </button>
-                            ))}
-                        </div>
-                    )}
-
-                    <div
-                        data-layer="input-area-frame"
-                        style={inputAreaFrameStyle}
-                    >
-                        <div
-                            data-layer="input-box-content"
-                            style={{
-                                alignSelf: "stretch",
-                                maxHeight: 196,
-                                padding: 12,
-                                background: expandedInputAreaBackground,
-                                boxShadow: "0px -4px 48px rgba(0, 0, 0, 0.06)",
-                                overflow: "hidden",
-                                borderTopLeftRadius: `${universalBorderRadius}px`,
-                                borderTopRightRadius: `${universalBorderRadius}px`,
-                                backdropFilter: "blur(4px)",
-                                WebkitBackdropFilter: "blur(4px)",
-                                display: "flex",
-                                flexDirection: "column",
-                                gap: 12,
-                            }}
-                        >
-                            <div
-                                data-layer="text-image-input-area"
-                                style={{
-                                    alignSelf: "stretch",
-                                    display: "flex",
-                                    flexDirection: "column",
-                                    gap: 8,
-                                    overflowY: "auto",
-                                    flexGrow: 1,
-                                }}
-                            >
-                                {(imageFile || (attachmentFile && attachmentFile.type.startsWith("video/"))) &&
-                                    imagePreviewUrl && (
-                                    <div
-                                        data-layer="image-preview-expanded-input"
+                                {blockedDraft !== null && !isLoading && (
+                                    <button
+                                        data-layer="rephrase-button"
+                                        onClick={handleRephraseBlocked}
                                         style={{
-                                            alignSelf: "flex-start",
-                                            position: "relative",
-                                            width: 48,
-                                            height: 48,
-                                            flexShrink: 0,
-                                            marginTop: 6,
-                                            marginRight: 0,
+                                            ...suggestedReplyButtonStyle,
+                                            marginTop: 8,
                                         }}
                                     >
-                                        <img
-                                            src={imagePreviewUrl}
-                                            alt="Selected preview"
-                                            style={{
-                                                width: "100%",
-                                                height: "100%",
-                                                objectFit: "cover",
-                                                borderRadius: 12,
-                                                outline:
-                                                    "1px solid rgba(0,0,0,0.2)",
-                                            }}
-                                        />
-                                        <div
-                                            data-layer="remove-image-button"
-                                            onClick={handleRemoveImage}
-                                            style={{
-                                                position: "absolute",
-                                                right: -8,
-                                                top: -8,
-                                                width: 22,
-                                                height: 22,
-                                                borderRadius: 11,
-                                                background: "black",
-                                                display: "flex",
-                                                alignItems: "center",
-                                                justifyContent: "center",
-                                                cursor: "pointer",
-                                                border: "2px solid white",
-                                            }}
-                                        >
-                                            <svg
-                                                width="10"
-                                                height="10"
-                                                viewBox="0 0 10 10"
-                                                fill="none"
-                                                xmlns="[http://www.w3.org/2000/svg](http://www.w3.org/2000/svg)"
-                                            >
-                                                <path
-                                                    d="M1 1L9 9M9 1L1 9"
-                                                    stroke="white"
-                                                    strokeWidth="1.5"
-                                                    strokeLinecap="round"
-                                                    strokeLinejoin="round"
-                                                />
-                                            </svg>
-                                        </div>
-                                    </div>
+                                        {getBlockedStrings().rephrase}
+                                    </button>
                                 )}
-                                {!imageFile && attachmentPreview && (
-                                    <div
-                                        data-layer="file-attachment"
-                                        className="FileAttachment"
+                                {retryableConversation && !isLoading && (
+                                    <button
+                                        data-layer="retry-request-button"
+                                        onClick={handleRetryLastRequest}
                                         style={{
-                                            width: 240,
-                                            height: 48,
+                                            ...suggestedReplyButtonStyle,
                                             marginTop: 8,
-                                            padding: 0,
-                                            position: "relative",
-                                            background: "#EEF0F2",
-                                            borderRadius: 14,
-                                            justifyContent: "flex-start",
-                                            alignItems: "center",
-                                            display: "flex",
                                         }}
                                     >
+                                        Try again
+                                    </button>
+                                )}
+                            </div>
+                        )}
+                        <div ref={messagesEndRef} style={{ height: 1 }} />
+                    </div>
+
+                    {showSuggestionsArea && (
+                        <div
+                            data-layer="suggested-replies-container"
+                            style={suggestionsContainerStyle}
+                        >
+                            {displayedSuggestions.map((reply, index) => (
+                                <button
+                                    key={`suggested-reply-${index}`}
+                                    style={suggestedReplyButtonStyle}
+                                    onClick={() => handleSuggestionClick(reply)}
+                                    title={reply}
+                                >
+                                    {reply}
+                                </button>
+                            ))}
+                        </div>
+                    )}
+
+                    {sharedReplay ? (
+                        <div
+                            data-layer="shared-replay-bar"
+                            style={{
+                                ...errorFontStyle,
+                                color: iconColor,
+                                flexShrink: 0,
+                                display: "flex",
+                                alignItems: "center",
+                                justifyContent: "space-between",
+                                gap: 12,
+                                padding: 12,
+                                background: expandedInputAreaBackground,
+                                boxShadow: "0px -4px 48px rgba(0, 0, 0, 0.06)",
+                                borderTopLeftRadius: `${universalBorderRadius}px`,
+                                borderTopRightRadius: `${universalBorderRadius}px`,
+                            }}
+                        >
+                            {/* Anyone can write a share link */}
+                            <span>
+                                Shared by a link · not from this site's
+                                assistant
+                            </span>
+                            <button
+                                data-layer="continue-shared-chat-button"
+                                onClick={handleContinueSharedChat}
+                                onBlur={() => setConfirmReplaceChat(false)}
+                                style={{
+                                    ...suggestedReplyButtonStyle,
+                                    color: props.sendIconColor,
+                                    background: props.sendBgColor,
+                                    border: "none",
+                                }}
+                            >
+                                {confirmReplaceChat
+                                    ? "Replace my chat?"
+                                    : "Continue this chat"}
+                            </button>
+                        </div>
+                    ) : (
+                        <div
+                            data-layer="input-area-frame"
+                            style={inputAreaFrameStyle}
+                        >
+                            <div
+                                data-layer="input-box-content"
+                                style={{
+                                    alignSelf: "stretch",
+                                    maxHeight: 196,
+                                    padding: 12,
+                                    background: expandedInputAreaBackground,
+                                    boxShadow: "0px -4px 48px rgba(0, 0, 0, 0.06)",
+                                    overflow: "hidden",
+                                    borderTopLeftRadius: `${universalBorderRadius}px`,
+                                    borderTopRightRadius: `${universalBorderRadius}px`,
+                                    backdropFilter: "blur(4px)",
+                                    WebkitBackdropFilter: "blur(4px)",
+                                    display: "flex",
+                                    flexDirection: "column",
+                                    gap: 12,
+                                }}
+                            >
+                                <div
+                                    data-layer="text-image-input-area"
+                                    style={{
+                                        alignSelf: "stretch",
+                                        display: "flex",
+                                        flexDirection: "column",
+                                        gap: 8,
+                                        overflowY: "auto",
+                                        flexGrow: 1,
+                                    }}
+                                >
+                                    {(imageFile || (attachmentFile && attachmentFile.type.startsWith("video/"))) &&
+                                        imagePreviewUrl && (
                                         <div
-                                            onClick={handleRemoveImage}
-                                            style={{
-                                                position: "absolute",
-                                                right: -8,
-                                                top: -8,
-                                                width: 22,
-                                                height: 22,
-                                                borderRadius: 11,
-                                                background: "black",
-                                                display: "flex",
-                                                alignItems: "center",
-                                                justifyContent: "center",
-                                                cursor: "pointer",
-                                                border: "2px solid white",
-                                            }}
-                                        >
-                                            <svg
-                                                width="10"
-                                                height="10"
-                                                viewBox="0 0 10 10"
-                                                fill="none"
-                                                xmlns="[http://www.w3.org/2000/svg](http://www.w3.org/2000/svg)"
-                                            >
-                                                <path
-                                                    d="M1 1L9 9M9 1L1 9"
-                                                    stroke="white"
-                                                    strokeWidth="1.5"
-                                                    strokeLinecap="round"
-                                                    strokeLinejoin="round"
-                                                />
-                                            </svg>
-                                        </div>
-                                        <div
-                                            data-svg-wrapper
-                                            data-layer="file-icon"
-                                            className="FileIcon"
+                                            data-layer="image-preview-expanded-input"
                                             style={{
+                                                alignSelf: "flex-start",
                                                 position: "relative",
                                                 width: 48,
                                                 height: 48,
                                                 flexShrink: 0,
+                                                marginTop: 6,
+                                                marginRight: 0,
                                             }}
                                         >
-                                            <svg
-                                                width="100%"
-                                                height="100%"
-                                                viewBox="0 0 49 49"
-                                                fill="none"
-                                                xmlns="[http://www.w3.org/2000/svg](http://www.w3.org/2000/svg)"
+                                            <img
+                                                src={imagePreviewUrl}
+                                                alt="Selected preview"
+                                                style={{
+                                                    width: "100%",
+                                                    height: "100%",
+                                                    objectFit: "cover",
+                                                    borderRadius: 12,
+                                                    outline:
+                                                        "1px solid rgba(0,0,0,0.2)",
+                                                }}
+                                            />
+                                            <div
+                                                data-layer="remove-image-button"
+                                                onClick={handleRemoveImage}
+                                                style={{
+                                                    position: "absolute",
+                                                    right: -8,
+                                                    top: -8,
+                                                    width: 22,
+                                                    height: 22,
+                                                    borderRadius: 11,
+                                                    background: "black",
+                                                    display: "flex",
+                                                    alignItems: "center",
+                                                    justifyContent: "center",
+                                                    cursor: "pointer",
+                                                    border: "2px solid white",
+                                                }}
                                             >
-                                                <path
-                                                    d="M0.8125 14.6777C0.8125 6.94575 7.08051 0.677734 14.8125 0.677734H48.8125V48.6777H14.8125C7.08051 48.6777 0.8125 42.4097 0.8125 34.6777V14.6777Z"
-                                                    fill="#6AA4FB"
-                                                />
-                                                <path
-                                                    d="M15.8125 17.6777C15.8125 17.1254 16.2602 16.6777 16.8125 16.6777H32.8125C33.3648 16.6777 33.8125 17.1254 33.8125 17.6777C33.8125 18.23 33.3648 18.6777 32.8125 18.6777H16.8125C16.2602 18.6777 15.8125 18.23 15.8125 17.6777ZM15.8125 24.6777C15.8125 24.1254 16.2602 23.6777 16.8125 23.6777H32.8125C33.3648 23.6777 33.8125 24.1254 33.8125 24.6777C33.8125 25.23 33.3648 25.6777 32.8125 25.6777H16.8125C16.2602 25.6777 15.8125 25.23 15.8125 24.6777ZM15.8125 31.6777C15.8125 31.1255 16.2602 30.6777 16.8125 30.6777H23.8125C24.3648 30.6777 24.8125 31.1255 24.8125 31.6777C24.8125 32.23 24.3648 32.6777 23.8125 32.6777H16.8125C16.2602 32.6777 15.8125 32.23 15.8125 31.6777Z"
-                                                    fill="white"
-                                                    fillOpacity="0.95"
-                                                />
-                                                <path
-                                                    d="M23.8125 30.5127C33.4559 23.5127 33.9775 24.0343 33.9775 24.6777C33.9775 25.3211 33.4559 25.8428 32.8125 25.8428H16.8125C16.1691 25.8428 15.6475 25.3211 15.6475 24.6777C15.6475 24.0343 16.1691 23.5127 16.8125 23.5127H32.8125ZM32.8125 23.5127C33.4559 23.5127 33.9775 24.0343 33.9775 24.6777C33.9775 25.3211 33.4559 25.8428 32.8125 25.8428H16.8125C16.1691 25.8428 15.6475 25.3211 15.6475 24.6777C15.6475 24.0343 16.1691 23.5127 16.8125 23.5127H32.8125ZM32.8125 16.5127C33.4559 16.5127 33.9775 17.0343 33.9775 17.6777C33.9775 18.3211 33.4559 18.8428 32.8125 18.8428H16.8125C16.1691 18.8428 15.6475 18.3211 15.6475 17.6777C15.6475 17.0343 16.1691 16.5127 16.8125 16.5127H32.8125Z"
-                                                    stroke="white"
-                                                    strokeOpacity="0.95"
-                                                    strokeWidth="0.33"
-                                                />
-                                            </svg>
+                                                <svg
+                                                    width="10"
+                                                    height="10"
+                                                    viewBox="0 0 10 10"
+                                                    fill="none"
+                                                    xmlns="[http://www.w3.org/2000/svg](http://www.w3.org/2000/svg)"
+                                                >
+                                                    <path
+                                                        d="M1 1L9 9M9 1L1 9"
+                                                        stroke="white"
+                                                        strokeWidth="1.5"
+                                                        strokeLinecap="round"
+                                                        strokeLinejoin="round"
+                                                    />
+                                                </svg>
+                                            </div>
                                         </div>
+                                    )}
+                                    {!imageFile && attachmentPreview && (
                                         <div
-                                            data-layer="file-info"
-                                            className="FileInfo"
+                                            data-layer="file-attachment"
+                                            className="FileAttachment"
                                             style={{
+                                                width: 240,
+                                                height: 48,
+                                                marginTop: 8,
+                                                padding: 0,
+                                                position: "relative",
+                                                background: "#EEF0F2",
+                                                borderRadius: 14,
+                                                justifyContent: "flex-start",
+                                                alignItems: "center",
                                                 display: "flex",
-                                                flexDirection: "column",
-                                                justifyContent: "center",
-                                                alignItems: "flex-start",
-                                                overflow: "hidden",
-                                                flex: 1,
-                                                paddingLeft: 12,
-                                                paddingRight: 12,
                                             }}
                                         >
                                             <div
-                                                data-layer="file-name"
-                                                className="FileName"
+                                                onClick={handleRemoveImage}
                                                 style={{
-                                                    color: "rgba(0, 0, 0, 0.95)",
-                                                    fontSize: 13,
-                                                    fontFamily: "Inter",
-                                                    fontWeight: 500,
-                                                    lineHeight: "16px",
-                                                    whiteSpace: "nowrap",
-                                                    overflow: "hidden",
-                                                    textOverflow: "ellipsis",
-                                                    width: "100%",
+                                                    position: "absolute",
+                                                    right: -8,
+                                                    top: -8,
+                                                    width: 22,
+                                                    height: 22,
+                                                    borderRadius: 11,
+                                                    background: "black",
+                                                    display: "flex",
+                                                    alignItems: "center",
+                                                    justifyContent: "center",
+                                                    cursor: "pointer",
+                                                    border: "2px solid white",
+                                                }}
+                                            >
+                                                <svg
+                                                    width="10"
+                                                    height="10"
+                                                    viewBox="0 0 10 10"
+                                                    fill="none"
+                                                    xmlns="[http://www.w3.org/2000/svg](http://www.w3.org/2000/svg)"
+                                                >
+                                                    <path
+                                                        d="M1 1L9 9M9 1L1 9"
+                                                        stroke="white"
+                                                        strokeWidth="1.5"
+                                                        strokeLinecap="round"
+                                                        strokeLinejoin="round"
+                                                    />
+                                                </svg>
+                                            </div>
+                                            <div
+                                                data-svg-wrapper
+                                                data-layer="file-icon"
+                                                className="FileIcon"
+                                                style={{
+                                                    position: "relative",
+                                                    width: 48,
+                                                    height: 48,
+                                                    flexShrink: 0,
                                                 }}
                                             >
-                                                {attachmentPreview.name}
+                                                <svg
+                                                    width="100%"
+                                                    height="100%"
+                                                    viewBox="0 0 49 49"
+                                                    fill="none"
+                                                    xmlns="[http://www.w3.org/2000/svg](http://www.w3.org/2000/svg)"
+                                                >
+                                                    <path
+                                                        d="M0.8125 14.6777C0.8125 6.94575 7.08051 0.677734 14.8125 0.677734H48.8125V48.6777H14.8125C7.08051 48.6777 0.8125 42.4097 0.8125 34.6777V14.6777Z"
+                                                        fill="#6AA4FB"
+                                                    />
+                                                    <path
+                                                        d="M15.8125 17.6777C15.8125 17.1254 16.2602 16.6777 16.8125 16.6777H32.8125C33.3648 16.6777 33.8125 17.1254 33.8125 17.6777C33.8125 18.23 33.3648 18.6777 32.8125 18.6777H16.8125C16.2602 18.6777 15.8125 18.23 15.8125 17.6777ZM15.8125 24.6777C15.8125 24.1254 16.2602 23.6777 16.8125 23.6777H32.8125C33.3648 23.6777 33.8125 24.1254 33.8125 24.6777C33.8125 25.23 33.3648 25.6777 32.8125 25.6777H16.8125C16.2602 25.6777 15.8125 25.23 15.8125 24.6777ZM15.8125 31.6777C15.8125 31.1255 16.2602 30.6777 16.8125 30.6777H23.8125C24.3648 30.6777 24.8125 31.1255 24.8125 31.6777C24.8125 32.23 24.3648 32.6777 23.8125 32.6777H16.8125C16.2602 32.6777 15.8125 32.23 15.8125 31.6777Z"
+                                                        fill="white"
+                                                        fillOpacity="0.95"
+                                                    />
+                                                    <path
+                                                        d="M23.8125 30.5127C33.4559 23.5127 33.9775 24.0343 33.9775 24.6777C33.9775 25.3211 33.4559 25.8428 32.8125 25.8428H16.8125C16.1691 25.8428 15.6475 25.3211 15.6475 24.6777C15.6475 24.0343 16.1691 23.5127 16.8125 23.5127H32.8125ZM32.8125 23.5127C33.4559 23.5127 33.9775 24.0343 33.9775 24.6777C33.9775 25.3211 33.4559 25.8428 32.8125 25.8428H16.8125C16.1691 25.8428 15.6475 25.3211 15.6475 24.6777C15.6475 24.0343 16.1691 23.5127 16.8125 23.5127H32.8125ZM32.8125 16.5127C33.4559 16.5127 33.9775 17.0343 33.9775 17.6777C33.9775 18.3211 33.4559 18.8428 32.8125 18.8428H16.8125C16.1691 18.8428 15.6475 18.3211 15.6475 17.6777C15.6475 17.0343 16.1691 16.5127 16.8125 16.5127H32.8125Z"
+                                                        stroke="white"
+                                                        strokeOpacity="0.95"
+                                                        strokeWidth="0.33"
+                                                    />
+                                                </svg>
                                             </div>
                                             <div
-                                                data-layer="file-type"
-                                                className="FileType"
+                                                data-layer="file-info"
+                                                className="FileInfo"
                                                 style={{
-                                                    color: "rgba(0, 0, 0, 0.65)",
-                                                    fontSize: 11,
-                                                    fontFamily: "Inter",
-                                                    fontWeight: 400,
-                                                    lineHeight: "14px",
-                                                    whiteSpace: "nowrap",
+                                                    display: "flex",
+                                                    flexDirection: "column",
+                                                    justifyContent: "center",
+                                                    alignItems: "flex-start",
                                                     overflow: "hidden",
-                                                    textOverflow: "ellipsis",
-                                                    width: "100%",
+                                                    flex: 1,
+                                                    paddingLeft: 12,
+                                                    paddingRight: 12,
                                                 }}
                                             >
-                                                {attachmentPreview.name
-                                                    ? attachmentPreview.name
-                                                          .split(".")
-                                                          .pop()
-                                                          ?.toUpperCase()
-                                                    : (
-                                                          attachmentPreview.type ||
-                                                          "FILE"
-                                                      )
-                                                          .split("/")[1]
-                                                          ?.toUpperCase() ||
-                                                      "FILE"}
+                                                <div
+                                                    data-layer="file-name"
+                                                    className="FileName"
+                                                    style={{
+                                                        color: "rgba(0, 0, 0, 0.95)",
+                                                        fontSize: 13,
+                                                        fontFamily: "Inter",
+                                                        fontWeight: 500,
+                                                        lineHeight: "16px",
+                                                        whiteSpace: "nowrap",
+                                                        overflow: "hidden",
+                                                        textOverflow: "ellipsis",
+                                                        width: "100%",
+                                                    }}
+                                                >
+                                                    {attachmentPreview.name}
+                                                </div>
+                                                <div
+                                                    data-layer="file-type"
+                                                    className="FileType"
+                                                    style={{
+                                                        color: "rgba(0, 0, 0, 0.65)",
+                                                        fontSize: 11,
+                                                        fontFamily: "Inter",
+                                                        fontWeight: 400,
+                                                        lineHeight: "14px",
+                                                        whiteSpace: "nowrap",
+                                                        overflow: "hidden",
+                                                        textOverflow: "ellipsis",
+                                                        width: "100%",
+                                                    }}
+                                                >
+                                                    {attachmentPreview.name
+                                                        ? attachmentPreview.name
+                                                              .split(".")
+                                                              .pop()
+                                                              ?.toUpperCase()
+                                                        : (
+                                                              attachmentPreview.type ||
+                                                              "FILE"
+                                                          )
+                                                              .split("/")[1]
+                                                              ?.toUpperCase() ||
+                                                          "FILE"}
+                                                </div>
                                             </div>
                                         </div>
-                                    </div>
-                                )}
-                                <textarea
-                                    ref={inputRef}
-                                    value={input}
-                                    onChange={handleInput}
-                                    onKeyDown={handleExpandedViewKeyDown}
-                                    placeholder={placeholder}
+                                    )}
+                                    <textarea
+                                        ref={inputRef}
+                                        value={input}
+                                        onChange={handleInput}
+                                        onKeyDown={handleExpandedViewKeyDown}
+                                        placeholder={placeholder}
+                                        style={{
+                                            ...globalFontStyles,
+                                            color: props.textColor,
+                                            alignSelf: "stretch",
+                                            minHeight:
+                                                globalFontStyles.lineHeight &&
+                                                globalFontStyles.fontSize
+                                                    ? `calc(${typeof globalFontStyles.lineHeight === "number" ? globalFontStyles.lineHeight : parseFloat(globalFontStyles.lineHeight as string)} * ${parseFloat(globalFontStyles.fontSize as string)}px)`
+                                                    : "24px",
+                                            flexGrow: 1,
+                                            resize: "none",
+                                            border: "none",
+                                            outline: "none",
+                                            background: "transparent",
+                                            padding: "0px",
+                                            wordWrap: "break-word",
+                                        }}
+                                        rows={1}
+                                    />
+                                </div>
+                                <div
+                                    data-layer="input-action-buttons"
                                     style={{
-                                        ...globalFontStyles,
-                                        color: props.textColor,
                                         alignSelf: "stretch",
-                                        minHeight:
-                                            globalFontStyles.lineHeight &&
-                                            globalFontStyles.fontSize
-                                                ? `calc(${typeof globalFontStyles.lineHeight === "number" ? globalFontStyles.lineHeight : parseFloat(globalFontStyles.lineHeight as string)} * ${parseFloat(globalFontStyles.fontSize as string)}px)`
-                                                : "24px",
-                                        flexGrow: 1,
-                                        resize: "none",
-                                        border: "none",
-                                        outline: "none",
-                                        background: "transparent",
-                                        padding: "0px",
-                                        wordWrap: "break-word",
-                                    }}
-                                    rows={1}
-                                />
-                            </div>
-                            <div
-                                data-layer="input-action-buttons"
-                                style={{
-                                    alignSelf: "stretch",
-                                    justifyContent: showAttachmentButton
-                                        ? "space-between"
-                                        : "flex-end",
-                                    alignItems: "center",
-                                    display: "flex",
-                                    flexShrink: 0,
-                                }}
-                            >
-                                <button
-                                    aria-label="Add photos & files"
-                                    onClick={() =>
-                                        fileInputRef.current?.click()
-                                    }
-                                    disabled={isLoading}
-                                    style={{
-                                        background:
-                                            props.userMessageBackgroundColor,
-                                        border: "none",
-                                        borderRadius: `${universalBorderRadius}px`,
-                                        width: 36,
-                                        height: 36,
-                                        display: showAttachmentButton
-                                            ? "flex"
-                                            : "none",
+                                        justifyContent: showAttachmentButton
+                                            ? "space-between"
+                                            : "flex-end",
                                         alignItems: "center",
-                                        justifyContent: "center",
-                                        cursor: "pointer",
-                                        padding: 0,
+                                        display: "flex",
+                                        flexShrink: 0,
                                     }}
                                 >
-                                    <input
-                                        ref={fileInputRef}
-                                        type="file"
-                                        accept={acceptedFileTypes}
-                                        style={{ display: "none" }}
-                                        onChange={handleImageChange}
-                                        disabled={isLoading}
-                                    />
-                                    <svg
-                                        width="36"
-                                        height="36"
-                                        viewBox="0 0 36 36"
-                                        fill="none"
-                                        xmlns="[http://www.w3.org/2000/svg](http://www.w3.org/2000/svg)"
-                                    >
-                                        <rect
-                                            width="36"
-                                            height="36"
-                                            rx={universalBorderRadius}
-                                            fill={
-                                                props.userMessageBackgroundColor
-                                            }
-                                        />
-                                        <path
-                                            d="M16.8403 13.1597V16.8403H13.1597C12.5192 16.8403 12 17.3595 12 18C12 18.6405 12.5192 19.1597 13.1597 19.1597H16.8403V22.8403C16.8403 23.4808 17.3595 24 18 24C18.6405 24 19.1597 23.4808 19.1597 22.8403V19.1597H22.8403C23.4808 19.1597 24 18.6405 24 18C24 17.3595 23.4808 16.8403 22.8403 16.8403H19.1597V13.1597C19.1597 12.5192 18.6405 12 18 12C17.3595 12 16.8403 12.5192 16.8403 13.1597Z"
-                                            fill={
-                                                props.iconColor
-                                                    ? props.iconColor.replace(
-                                                          /rgba?\((\d+,\s*\d+,\s*\d+)(?:,\s*[\d.]+)?\)/,
-                                                          "rgba($1, 0.65)"
-                                                      )
-                                                    : "rgba(0,0,0,0.65)"
-                                            }
-                                        />
-                                    </svg>
-                                </button>
-                                {isLoading ? (
                                     <button
-                                        aria-label="Stop generation"
-                                        onClick={handleStopGeneration}
+                                        aria-label="Add photos & files"
+                                        onClick={() =>
+                                            fileInputRef.current?.click()
+                                        }
+                                        disabled={isLoading}
                                         style={{
-                                            viewTransitionName: supportsViewTransitions ? "send-button-morph" : undefined,
-                                            background: props.sendBgColor,
+                                            background:
+                                                props.userMessageBackgroundColor,
                                             border: "none",
                                             borderRadius: `${universalBorderRadius}px`,
                                             width: 36,
                                             height: 36,
-                                            display: "flex",
+                                            display: showAttachmentButton
+                                                ? "flex"
+                                                : "none",
                                             alignItems: "center",
                                             justifyContent: "center",
                                             cursor: "pointer",
                                             padding: 0,
                                         }}
                                     >
-                                        {safeLoadingIconUrl ? (
-                                            <img
-                                                src={safeLoadingIconUrl}
-                                                alt="Stop"
-                                                style={{
-                                                    width: 18,
-                                                    height: 18,
-                                                }}
+                                        <input
+                                            ref={fileInputRef}
+                                            type="file"
+                                            accept={acceptedFileTypes}
+                                            style={{ display: "none" }}
+                                            onChange={handleImageChange}
+                                            disabled={isLoading}
+                                        />
+                                        <svg
+                                            width="36"
+                                            height="36"
+                                            viewBox="0 0 36 36"
+                                            fill="none"
+                                            xmlns="[http://www.w3.org/2000/svg](http://www.w3.org/2000/svg)"
+                                        >
+                                            <rect
+                                                width="36"
+                                                height="36"
+                                                rx={universalBorderRadius}
+                                                fill={
+                                                    props.userMessageBackgroundColor
+                                                }
                                             />
-                                        ) : (
-                                            <svg
-                                                width="10"
-                                                height="10"
-                                                viewBox="0 0 10 10"
-                                                fill="none"
-                                                xmlns="[http://www.w3.org/2000/svg](http://www.w3.org/2000/svg)"
-                                            >
-                                                <rect
-                                                    width="10"
-                                                    height="10"
-                                                    rx={Math.min(
-                                                        universalBorderRadius,
-                                                        1.5
-                                                    )}
-                                                    fill={props.sendIconColor}
-                                                    style={{
-                                                        fillOpacity: 0.95,
-                                                    }}
-                                                />
-                                            </svg>
-                                        )}
+                                            <path
+                                                d="M16.8403 13.1597V16.8403H13.1597C12.5192 16.8403 12 17.3595 12 18C12 18.6405 12.5192 19.1597 13.1597 19.1597H16.8403V22.8403C16.8403 23.4808 17.3595 24 18 24C18.6405 24 19.1597 23.4808 19.1597 22.8403V19.1597H22.8403C23.4808 19.1597 24 18.6405 24 18C24 17.3595 23.4808 16.8403 22.8403 16.8403H19.1597V13.1597C19.1597 12.5192 18.6405 12 18 12C17.3595 12 16.8403 12.5192 16.8403 13.1597Z"
+                                                fill={
+                                                    props.iconColor
+                                                        ? props.iconColor.replace(
+                                                              /rgba?\((\d+,\s*\d+,\s*\d+)(?:,\s*[\d.]+)?\)/,
+                                                              "rgba($1, 0.65)"
+                                                          )
+                                                        : "rgba(0,0,0,0.65)"
+                                                }
+                                            />
+                                        </svg>
                                     </button>
-                                ) : (
-                                    <button
-                                        aria-label={
-                                            input.trim() || imageFile
-                                                ? "Send message"
-                                                : isLiveMode
-                                                  ? "End Call"
-                                                  : "Start Call"
-                                        }
-                                        onClick={(e) => {
-                                            if (
-                                                !input.trim() &&
-                                                !imageFile &&
-                                                !attachmentFile
-                                            ) {
-                                                handleToggleLive(e)
-                                            } else {
-                                                handleExpandedViewSendClick()
+                                    {pickerOptions.length > 1 && (
+                                        <select
+                                            data-layer="model-picker"
+                                            aria-label="Model"
+                                            value={activeModel}
+                                            disabled={isLoading}
+                                            onChange={(e) =>
+                                                handleSelectModel(e.target.value)
                                             }
-                                        }}
-                                        style={{
-                                            viewTransitionName: supportsViewTransitions ? "send-button-morph" : undefined,
-                                            background:
-                                                !input.trim() &&
-                                                !imageFile &&
-                                                isLiveMode
-                                                    ? "#FF3B30"
-                                                    : props.sendBgColor,
-                                            opacity: !input.trim() &&
-                                                !imageFile &&
-                                                !attachmentFile &&
-                                                !enableGeminiLive ? 0.5 : 1,
-                                            border: "none",
-                                            borderRadius: `${universalBorderRadius}px`,
-                                            width: 36,
-                                            height: 36,
-                                            display: "flex",
-                                            alignItems: "center",
-                                            justifyContent: "center",
-                                            cursor: !input.trim() &&
-                                                !imageFile &&
-                                                !attachmentFile &&
-                                                !enableGeminiLive ? "not-allowed" : "pointer",
-                                            padding: 0,
-                                            transition: "background 0.2s ease",
-                                        }}
-                                    >
-                                        {input.trim() ||
-                                        imageFile ||
-                                        attachmentFile ||
-                                        !enableGeminiLive ? (
-                                            safeSendIconUrl ? (
+                                            style={{
+                                                ...errorFontStyle,
+                                                color: props.textColor,
+                                                background:
+                                                    props.userMessageBackgroundColor,
+                                                border: "none",
+                                                borderRadius: `${universalBorderRadius}px`,
+                                                height: 36,
+                                                paddingLeft: 12,
+                                                paddingRight: 12,
+                                                marginLeft: "auto",
+                                                marginRight: 8,
+                                                cursor: "pointer",
+                                                outline: "none",
+                                            }}
+                                        >
+                                            {pickerOptions.map((option) => (
+                                                <option
+                                                    key={option.model}
+                                                    value={option.model.trim()}
+                                                >
+                                                    {option.label || option.model}
+                                                </option>
+                                            ))}
+                                        </select>
+                                    )}
+                                    {isLoading ? (
+                                        <button
+                                            aria-label="Stop generation"
+                                            onClick={handleStopGeneration}
+                                            style={{
+                                                viewTransitionName: supportsViewTransitions ? "send-button-morph" : undefined,
+                                                background: props.sendBgColor,
+                                                border: "none",
+                                                borderRadius: `${universalBorderRadius}px`,
+                                                width: 36,
+                                                height: 36,
+                                                display: "flex",
+                                                alignItems: "center",
+                                                justifyContent: "center",
+                                                cursor: "pointer",
+                                                padding: 0,
+                                            }}
+                                        >
+                                            {safeLoadingIconUrl ? (
                                                 <img
-                                                    src={safeSendIconUrl}
-                                                    alt="Send"
+                                                    src={safeLoadingIconUrl}
+                                                    alt="Stop"
                                                     style={{
                                                         width: 18,
                                                         height: 18,
                                                     }}
                                                 />
-                                            ) : (
-                                                <svg
-                                                    width="36"
-                                                    height="36"
-                                                    viewBox="0 0 36 36"
-                                                    fill="none"
-                                                    xmlns="[http://www.w3.org/2000/svg](http://www.w3.org/2000/svg)"
-                                                >
-                                                    <rect
-                                                        width="36"
-                                                        height="36"
-                                                        rx={
-                                                            universalBorderRadius
-                                                        }
-                                                        fill={props.sendBgColor}
-                                                    />
-                                                    <path
-                                                        fillRule="evenodd"
-                                                        clipRule="evenodd"
-                                                        d="M14.5592 18.1299L16.869 15.8202V23.3716C16.869 23.9948 17.3742 24.5 17.9974 24.5C18.6206 24.5 19.1259 23.9948 19.1259 23.3716V15.8202L21.4356 18.1299C21.8762 18.5706 22.5907 18.5706 23.0314 18.1299C23.4721 17.6893 23.4721 16.9748 23.0314 16.5341L17.9974 11.5L12.9633 16.5341C12.5226 16.9748 12.5226 17.6893 12.9633 18.1299C13.404 18.5706 14.1185 18.5706 14.5592 18.1299Z"
-                                                        fill={
-                                                            props.sendIconColor
-                                                        }
-                                                    />
-                                                </svg>
-                                            )
-                                        ) : isLiveMode ? (
-                                            // Red Hangup Button (Expanded)
-                                            <div
-                                                data-svg-wrapper
-                                                data-layer="Vector"
-                                                className="Vector"
-                                                style={{
-                                                    display: "flex",
-                                                    justifyContent: "center",
-                                                    alignItems: "center",
-                                                    width: "100%",
-                                                    height: "100%",
-                                                }}
-                                            >
+                                            ) : (
                                                 <svg
-                                                    width="17"
-                                                    height="6"
-                                                    viewBox="0 0 17 6"
+                                                    width="10"
+                                                    height="10"
+                                                    viewBox="0 0 10 10"
                                                     fill="none"
                                                     xmlns="[http://www.w3.org/2000/svg](http://www.w3.org/2000/svg)"
                                                 >
-                                                    <path
-                                                        d="M8.26514 0C5.53748 0 2.43384 0.509839 0.923414 2.06572C0.347446 2.64882 0 3.37491 0 4.28728C0 4.89816 0.188972 5.74968 0.796291 5.90709C1.02282 6.03478 1.27756 6.01119 1.63127 5.95298L3.67811 5.61044C4.38284 5.49373 4.73813 5.22516 4.92389 4.53789L5.25979 3.29924C5.32663 3.05597 5.40452 2.96384 5.67778 2.86308C6.25446 2.66086 7.14424 2.55568 8.26514 2.55126C9.3932 2.54906 10.283 2.66086 10.8597 2.86308C11.1329 2.96384 11.2109 3.05597 11.2728 3.29924L11.6136 4.53789C11.7972 5.22516 12.1546 5.49373 12.8593 5.61044L14.9062 5.95298C15.255 6.01119 15.5098 6.03478 15.7363 5.90709C16.3485 5.74968 16.5375 4.89816 16.5375 4.28728C16.5375 3.37491 16.19 2.64882 15.614 2.06572C14.1036 0.509839 11 0 8.26514 0Z"
-                                                        fill="white"
+                                                    <rect
+                                                        width="10"
+                                                        height="10"
+                                                        rx={Math.min(
+                                                            universalBorderRadius,
+                                                            1.5
+                                                        )}
+                                                        fill={props.sendIconColor}
+                                                        style={{
+                                                            fillOpacity: 0.95,
+                                                        }}
                                                     />
                                                 </svg>
-                                            </div>
-                                        ) : (
-                                            // Call Button (Expanded)
-                                            <div
-                                                data-svg-wrapper
-                                                data-layer="Vector"
-                                                className="Vector"
-                                                style={{
-                                                    display: "flex",
-                                                    justifyContent: "center",
-                                                    alignItems: "center",
-                                                    width: "100%",
-                                                    height: "100%",
-                                                }}
-                                            >
-                                                <svg
-                                                    width="13"
-                                                    height="13"
-                                                    viewBox="0 0 13 13"
-                                                    fill="none"
-                                                    xmlns="[http://www.w3.org/2000/svg](http://www.w3.org/2000/svg)"
-                                                >
-                                                    <path
-                                                        d="M3.57064 9.3837C5.61989 11.4399 8.07817 13 10.0516 13C10.9769 13 11.784 12.6291 12.3163 12.038C12.8228 11.4683 13 11.0451 13 10.6648C13 10.374 12.8157 10.1 12.3587 9.78075L10.6552 8.56335C10.2316 8.26319 10.0423 8.20655 9.79145 8.20655C9.57605 8.20655 9.38954 8.24687 9.03184 8.44297L7.91947 9.05518C7.78915 9.13089 7.73028 9.14286 7.63321 9.14286C7.50064 9.14286 7.40851 9.10964 7.2782 9.05518C6.74596 8.80731 6.00274 8.2278 5.34019 7.56163C4.67765 6.89978 4.16839 6.23477 3.89458 5.69703C3.85913 5.6284 3.81879 5.51728 3.81879 5.40397C3.81879 5.31629 3.86622 5.23619 3.92294 5.14144L4.57619 4.02537C4.75833 3.72255 4.80576 3.55477 4.80576 3.31617C4.80576 3.04437 4.7136 2.75351 4.45567 2.38474L3.28436 0.749498C2.95064 0.283779 2.6998 0 2.32135 0C1.85293 0 1.28964 0.356794 0.88722 0.74461C0.307556 1.30459 0 2.08241 0 2.95938C0 4.94484 1.52849 7.34863 3.57064 9.3837Z"
-                                                        fill={
-                                                            props.sendIconColor
-                                                        }
+                                            )}
+                                        </button>
+                                    ) : (
+                                        <button
+                                            aria-label={
+                                                input.trim() || imageFile
+                                                    ? "Send message"
+                                                    : isLiveMode
+                                                      ? "End Call"
+                                                      : "Start Call"
+                                            }
+                                            onClick={(e) => {
+                                                if (
+                                                    !input.trim() &&
+                                                    !imageFile &&
+                                                    !attachmentFile
+                                                ) {
+                                                    handleToggleLive(e)
+                                                } else {
+                                                    handleExpandedViewSendClick()
+                                                }
+                                            }}
+                                            style={{
+                                                viewTransitionName: supportsViewTransitions ? "send-button-morph" : undefined,
+                                                background:
+                                                    !input.trim() &&
+                                                    !imageFile &&
+                                                    isLiveMode
+                                                        ? "#FF3B30"
+                                                        : props.sendBgColor,
+                                                opacity: !input.trim() &&
+                                                    !imageFile &&
+                                                    !attachmentFile &&
+                                                    !enableGeminiLive ? 0.5 : 1,
+                                                border: "none",
+                                                borderRadius: `${universalBorderRadius}px`,
+                                                width: 36,
+                                                height: 36,
+                                                display: "flex",
+                                                alignItems: "center",
+                                                justifyContent: "center",
+                                                cursor: !input.trim() &&
+                                                    !imageFile &&
+                                                    !attachmentFile &&
+                                                    !enableGeminiLive ? "not-allowed" : "pointer",
+                                                padding: 0,
+                                                transition: "background 0.2s ease",
+                                            }}
+                                        >
+                                            {input.trim() ||
+                                            imageFile ||
+                                            attachmentFile ||
+                                            !enableGeminiLive ? (
+                                                safeSendIconUrl ? (
+                                                    <img
+                                                        src={safeSendIconUrl}
+                                                        alt="Send"
+                                                        style={{
+                                                            width: 18,
+                                                            height: 18,
+                                                        }}
                                                     />
-                                                </svg>
-                                            </div>
-                                        )}
-                                    </button>
-                                )}
+                                                ) : (
+                                                    <svg
+                                                        width="36"
+                                                        height="36"
+                                                        viewBox="0 0 36 36"
+                                                        fill="none"
+                                                        xmlns="[http://www.w3.org/2000/svg](http://www.w3.org/2000/svg)"
+                                                    >
+                                                        <rect
+                                                            width="36"
+                                                            height="36"
+                                                            rx={
+                                                                universalBorderRadius
+                                                            }
+                                                            fill={props.sendBgColor}
+                                                        />
+                                                        <path
+                                                            fillRule="evenodd"
+                                                            clipRule="evenodd"
+                                                            d="M14.5592 18.1299L16.869 15.8202V23.3716C16.869 23.9948 17.3742 24.5 17.9974 24.5C18.6206 24.5 19.1259 23.9948 19.1259 23.3716V15.8202L21.4356 18.1299C21.8762 18.5706 22.5907 18.5706 23.0314 18.1299C23.4721 17.6893 23.4721 16.9748 23.0314 16.5341L17.9974 11.5L12.9633 16.5341C12.5226 16.9748 12.5226 17.6893 12.9633 18.1299C13.404 18.5706 14.1185 18.5706 14.5592 18.1299Z"
+                                                            fill={
+                                                                props.sendIconColor
+                                                            }
+                                                        />
+                                                    </svg>
+                                                )
+                                            ) : isLiveMode ? (
+                                                // Red Hangup Button (Expanded)
+                                                <div
+                                                    data-svg-wrapper
+                                                    data-layer="Vector"
+                                                    className="Vector"
+                                                    style={{
+                                                        display: "flex",
+                                                        justifyContent: "center",
+                                                        alignItems: "center",
+                                                        width: "100%",
+                                                        height: "100%",
+                                                    }}
+                                                >
+                                                    <svg
+                                                        width="17"
+                                                        height="6"
+                                                        viewBox="0 0 17 6"
+                                                        fill="none"
+                                                        xmlns="[http://www.w3.org/2000/svg](http://www.w3.org/2000/svg)"
+                                                    >
+                                                        <path
+                                                            d="M8.26514 0C5.53748 0 2.43384 0.509839 0.923414 2.06572C0.347446 2.64882 0 3.37491 0 4.28728C0 4.89816 0.188972 5.74968 0.796291 5.90709C1.02282 6.03478 1.27756 6.01119 1.63127 5.95298L3.67811 5.61044C4.38284 5.49373 4.73813 5.22516 4.92389 4.53789L5.25979 3.29924C5.32663 3.05597 5.40452 2.96384 5.67778 2.86308C6.25446 2.66086 7.14424 2.55568 8.26514 2.55126C9.3932 2.54906 10.283 2.66086 10.8597 2.86308C11.1329 2.96384 11.2109 3.05597 11.2728 3.29924L11.6136 4.53789C11.7972 5.22516 12.1546 5.49373 12.8593 5.61044L14.9062 5.95298C15.255 6.01119 15.5098 6.03478 15.7363 5.90709C16.3485 5.74968 16.5375 4.89816 16.5375 4.28728C16.5375 3.37491 16.19 2.64882 15.614 2.06572C14.1036 0.509839 11 0 8.26514 0Z"
+                                                            fill="white"
+                                                        />
+                                                    </svg>
+                                                </div>
+                                            ) : (
+                                                // Call Button (Expanded)
+                                                <div
+                                                    data-svg-wrapper
+                                                    data-layer="Vector"
+                                                    className="Vector"
+                                                    style={{
+                                                        display: "flex",
+                                                        justifyContent: "center",
+                                                        alignItems: "center",
+                                                        width: "100%",
+                                                        height: "100%",
+                                                    }}
+                                                >
+                                                    <svg
+                                                        width="13"
+                                                        height="13"
+                                                        viewBox="0 0 13 13"
+                                                        fill="none"
+                                                        xmlns="[http://www.w3.org/2000/svg](http://www.w3.org/2000/svg)"
+                                                    >
+                                                        <path
+                                                            d="M3.57064 9.3837C5.61989 11.4399 8.07817 13 10.0516 13C10.9769 13 11.784 12.6291 12.3163 12.038C12.8228 11.4683 13 11.0451 13 10.6648C13 10.374 12.8157 10.1 12.3587 9.78075L10.6552 8.56335C10.2316 8.26319 10.0423 8.20655 9.79145 8.20655C9.57605 8.20655 9.38954 8.24687 9.03184 8.44297L7.91947 9.05518C7.78915 9.13089 7.73028 9.14286 7.63321 9.14286C7.50064 9.14286 7.40851 9.10964 7.2782 9.05518C6.74596 8.80731 6.00274 8.2278 5.34019 7.56163C4.67765 6.89978 4.16839 6.23477 3.89458 5.69703C3.85913 5.6284 3.81879 5.51728 3.81879 5.40397C3.81879 5.31629 3.86622 5.23619 3.92294 5.14144L4.57619 4.02537C4.75833 3.72255 4.80576 3.55477 4.80576 3.31617C4.80576 3.04437 4.7136 2.75351 4.45567 2.38474L3.28436 0.749498C2.95064 0.283779 2.6998 0 2.32135 0C1.85293 0 1.28964 0.356794 0.88722 0.74461C0.307556 1.30459 0 2.08241 0 2.95938C0 4.94484 1.52849 7.34863 3.57064 9.3837Z"
+                                                            fill={
+                                                                props.sendIconColor
+                                                            }
+                                                        />
+                                                    </svg>
+                                                </div>
+                                            )}
+                                        </button>
+                                    )}
+                                </div>
                             </div>
                         </div>
-                    </div>
+                    )}
+                    <AnimatePresence>
+                        {threadsEnabled && isMobileView && threadSheetOpen && (
+                            <motion.div
+                                key="thread-sheet-backdrop"
+                                data-layer="thread-sheet-backdrop"
+                                initial={{ opacity: 0 }}
+                                animate={{ opacity: 1 }}
+                                exit={{ opacity: 0 }}
+                                onClick={() => setThreadSheetOpen(false)}
+                                style={{
+                                    position: "absolute",
+                                    inset: 0,
+                                    background: "rgba(0, 0, 0, 0.3)",
+                                    zIndex: 3,
+                                }}
+                            />
+                        )}
+                        {threadsEnabled && isMobileView && threadSheetOpen && (
+                            <motion.div
+                                key="thread-sheet"
+                                data-layer="thread-sheet"
+                                role="dialog"
+                                aria-label="Chats"
+                                initial={{ y: "100%" }}
+                                animate={{ y: 0 }}
+                                exit={{ y: "100%" }}
+                                transition={{
+                                    type: "spring",
+                                    stiffness: 350,
+                                    damping: 35,
+                                }}
+                                onKeyDown={(e) => {
+                                    if (e.key === "Escape") {
+                                        e.stopPropagation()
+                                        setThreadSheetOpen(false)
+                                    }
+                                }}
+                                style={{
+                                    position: "absolute",
+                                    left: 0,
+                                    right: 0,
+                                    bottom: 0,
+                                    height: "70%",
+                                    boxSizing: "border-box",
+                                    padding: "16px 12px",
+                                    paddingBottom:
+                                        "calc(16px + env(safe-area-inset-bottom))",
+                                    background: expandedInputAreaBackground,
+                                    borderRadius: `${universalBorderRadius}px ${universalBorderRadius}px 0px 0px`,
+                                    boxShadow: "0px -4px 48px rgba(0, 0, 0, 0.12)",
+                                    zIndex: 4,
+                                }}
+                            >
+                                {renderThreadList()}
+                            </motion.div>
+                        )}
+                    </AnimatePresence>
                     <style>{`
                       @keyframes pulseStar { 0% { opacity: 0.5; transform: scale(0.85); } 50% { opacity: 1; transform: scale(1.0); } 100% { opacity: 0.5; transform: scale(0.85); } }
                       [data-layer="suggested-replies-container"]::-webkit-scrollbar { display: none; }
@@ -4865,6 +11170,32 @@ addPropertyControls(ChatOverlay, {
         description: "Voice detection threshold for interrupting AI. Lower = more sensitive. Default: 0.01",
         hidden: (props) => !props.enableGeminiLive,
     },
+    provider: {
+        type: ControlType.Enum,
+        title: "Provider",
+        options: ["gemini", "openai"],
+        optionTitles: ["Gemini", "OpenAI-compatible"],
+        defaultValue: "gemini",
+        description:
+            "OpenAI-compatible: any /v1/chat/completions server, e.g. a self-hosted model or local mock.",
+    },
+    openAiBaseUrl: {
+        type: ControlType.String,
+        title: "API Base URL",
+        defaultValue: "",
+        placeholder: "http://localhost:8000/v1",
+        description: "Base URL that /chat/completions is appended to.",
+        hidden: (props) => props.provider !== "openai",
+    },
+    openAiApiKey: {
+        type: ControlType.String,
+        title: "API Key",
+        defaultValue: "",
+        placeholder: "(Optional)",
+        obscured: true,
+        description: "Sent as a Bearer token. Leave empty for local servers.",
+        hidden: (props) => props.provider !== "openai",
+    },
     geminiApiKey: {
         type: ControlType.String,
         title: "Gemini API Key",
@@ -4872,6 +11203,66 @@ addPropertyControls(ChatOverlay, {
         placeholder: "Paste API key",
         obscured: true,
         description: "Create a free API key on Google AI Studio",
+        hidden: (props) => !!props.proxyBaseUrl,
+    },
+    proxyBaseUrl: {
+        type: ControlType.String,
+        title: "Proxy URL",
+        defaultValue: "",
+        placeholder: "https://your-site.com/api/gemini",
+        description:
+            "(Optional) Send all Gemini calls through your own backend so the API key never reaches the browser.",
+    },
+    proxyHeaders: {
+        type: ControlType.Array,
+        title: "Proxy Headers",
+        control: {
+            type: ControlType.Object,
+            controls: {
+                name: { type: ControlType.String, title: "Name" },
+                value: { type: ControlType.String, title: "Value" },
+            },
+        },
+        defaultValue: [],
+        description:
+            "Extra headers sent to the proxy. Live calls send them as query params.",
+        hidden: (props) => !props.proxyBaseUrl,
+    },
+    mockMode: {
+        type: ControlType.Boolean,
+        title: "Mock Mode",
+        defaultValue: false,
+        description:
+            "Answer from a built-in offline mock instead of the API, for canvas previews and tests.",
+    },
+    mockScenario: {
+        type: ControlType.Enum,
+        title: "Mock Scenario",
+        options: ["echo", "script", "rateLimit", "error", "blocked"],
+        optionTitles: ["Echo", "Script", "Rate Limit", "Error", "Blocked"],
+        defaultValue: "echo",
+        hidden: (props) => !props.mockMode,
+        description:
+            "Rate Limit fails each message once, then succeeds on retry.",
+    },
+    mockScript: {
+        type: ControlType.String,
+        title: "Mock Script",
+        defaultValue: "",
+        displayTextArea: true,
+        placeholder: "First reply\n---\nSecond reply",
+        hidden: (props) => !props.mockMode || props.mockScenario !== "script",
+        description: "Replies in order, separated by a line with ---.",
+    },
+    mockSeed: {
+        type: ControlType.Number,
+        title: "Mock Seed",
+        defaultValue: 1,
+        min: 1,
+        max: 9999,
+        step: 1,
+        hidden: (props) => !props.mockMode,
+        description: "Same seed, same chunking and timing.",
     },
     universalBorderRadius: {
         type: ControlType.Number,
@@ -4892,6 +11283,119 @@ addPropertyControls(ChatOverlay, {
         defaultValue: "You are a helpful assistant.",
         description: "System prompt to define the bot's personality and task.",
     },
+    pinnedKnowledge: {
+        type: ControlType.String,
+        title: "Knowledge",
+        displayTextArea: true,
+        defaultValue: "",
+        description:
+            "(Optional) Reference text sent with the instructions, e.g. product docs or FAQs.",
+    },
+    enableContextCaching: {
+        type: ControlType.Boolean,
+        title: "Context Caching",
+        defaultValue: false,
+        hidden: (props) => props.provider === "openai",
+        description:
+            "Store long instructions and knowledge in a Gemini cache instead of re-sending them.",
+    },
+    cacheTtlSeconds: {
+        type: ControlType.Number,
+        title: "Cache TTL (s)",
+        defaultValue: DEFAULT_CACHE_TTL_S,
+        min: 300,
+        max: 86400,
+        step: 300,
+        hidden: (props) =>
+            props.provider === "openai" || !props.enableContextCaching,
+        description: "Cache lifetime. Active chats extend it before it expires.",
+    },
+    historySummaryThreshold: {
+        type: ControlType.Number,
+        title: "Summarize After",
+        defaultValue: MAX_HISTORY_MESSAGES,
+        min: 0,
+        max: 100,
+        step: 2,
+        displayStepper: true,
+        description:
+            "Messages sent word for word; older ones are folded into a running summary. 0 drops them instead.",
+    },
+    historyTokenBudget: {
+        type: ControlType.Number,
+        title: "History Budget",
+        defaultValue: DEFAULT_HISTORY_TOKEN_BUDGET,
+        min: 1000,
+        max: 1000000,
+        step: 1000,
+        description:
+            "Tokens of history sent per request. Old attachments are dropped first, then the oldest messages.",
+    },
+    summaryModel: {
+        type: ControlType.String,
+        title: "Summary Model",
+        defaultValue: "",
+        placeholder: DEFAULT_SUMMARY_MODEL_ID,
+        hidden: (props) => props.historySummaryThreshold === 0,
+        description:
+            "(Optional) Cheap model that writes the summary. Empty uses gemini-2.5-flash-lite, or the chat model on other providers.",
+    },
+    persistConversation: {
+        type: ControlType.Boolean,
+        title: "Remember Chat",
+        defaultValue: false,
+        description:
+            "Keep the conversation in the visitor's browser (IndexedDB) and restore it on reload.",
+    },
+    retentionDays: {
+        type: ControlType.Number,
+        title: "Keep For (days)",
+        defaultValue: DEFAULT_RETENTION_DAYS,
+        min: 0,
+        max: 365,
+        step: 1,
+        displayStepper: true,
+        hidden: (props) => !props.persistConversation,
+        description:
+            "Stored chats untouched this long are deleted. 0 keeps them until the visitor clears site data.",
+    },
+    enableThreads: {
+        type: ControlType.Boolean,
+        title: "Threads",
+        defaultValue: false,
+        hidden: (props) => !props.persistConversation,
+        description:
+            "Let visitors keep several chats: a side column on desktop, a sheet on mobile.",
+    },
+    enableExport: {
+        type: ControlType.Boolean,
+        title: "Export Menu",
+        defaultValue: false,
+        description:
+            "Menu to download the chat as Markdown, JSON or a printable page, and to import a JSON export.",
+    },
+    enableShareLinks: {
+        type: ControlType.Boolean,
+        title: "Share Links",
+        defaultValue: false,
+        description:
+            "Copy a link with a read-only copy of the chat in its #fragment, and open such links on load.",
+    },
+    archiveOnNewChat: {
+        type: ControlType.Boolean,
+        title: "Keep Old Chats",
+        defaultValue: false,
+        hidden: (props) => !props.persistConversation || props.enableThreads,
+        description:
+            "Without threads, New chat saves the previous conversation instead of deleting it. Visitors can't reopen it until Threads is turned on.",
+    },
+    enableSearch: {
+        type: ControlType.Boolean,
+        title: "Search",
+        defaultValue: false,
+        description:
+            "Search field that highlights matches in the chat. Enter and Shift+Enter step through them.",
+    },
     welcomeMessage: {
         type: ControlType.String,
         title: "Welcome Message",
@@ -4906,6 +11410,179 @@ addPropertyControls(ChatOverlay, {
         description:
             "Ideal: gemini-3-flash-preview for best speed, accuracy and thinking capabilities.",
     },
+    fallbackModels: {
+        type: ControlType.Array,
+        title: "Fallback Models",
+        control: {
+            type: ControlType.String,
+            placeholder: "model-id",
+        },
+        defaultValue: [],
+        maxCount: 5,
+        description:
+            "(Optional) Tried in order when the AI model is overloaded or unavailable.",
+    },
+    enableModelPicker: {
+        type: ControlType.Boolean,
+        title: "Model Picker",
+        defaultValue: false,
+        description: "Let visitors switch between the models listed below.",
+    },
+    modelOptions: {
+        type: ControlType.Array,
+        title: "Model Options",
+        control: {
+            type: ControlType.Object,
+            controls: {
+                label: { type: ControlType.String, title: "Label" },
+                model: {
+                    type: ControlType.String,
+                    title: "Model",
+                    placeholder: "model-id",
+                },
+            },
+        },
+        defaultValue: [
+            { label: "Fast", model: "gemini-3-flash-preview" },
+            { label: "Smart", model: "gemini-3-pro-preview" },
+        ],
+        maxCount: 5,
+        hidden: (props) => !props.enableModelPicker,
+        description:
+            "Allowed models and their labels. The visitor's choice is remembered.",
+    },
+    maxRetries: {
+        type: ControlType.Number,
+        title: "Retries",
+        defaultValue: 2,
+        min: 0,
+        max: 5,
+        step: 1,
+        displayStepper: true,
+        description:
+            "Automatic retries per model on rate limits, server errors and dropped connections.",
+    },
+    connectTimeout: {
+        type: ControlType.Number,
+        title: "Connect Timeout (s)",
+        defaultValue: DEFAULT_CONNECT_TIMEOUT_S,
+        min: 5,
+        max: 120,
+        step: 5,
+        displayStepper: true,
+        description: "Max wait for the AI to start responding.",
+    },
+    streamIdleTimeout: {
+        type: ControlType.Number,
+        title: "Stall Timeout (s)",
+        defaultValue: DEFAULT_STREAM_IDLE_TIMEOUT_S,
+        min: 5,
+        max: 120,
+        step: 5,
+        displayStepper: true,
+        description: "Max gap between streamed chunks before giving up.",
+    },
+    totalTimeout: {
+        type: ControlType.Number,
+        title: "Total Timeout (s)",
+        defaultValue: DEFAULT_TOTAL_TIMEOUT_S,
+        min: 10,
+        max: 600,
+        step: 10,
+        displayStepper: true,
+        description: "Max duration of a whole response, including retries.",
+    },
+    toolDeclarations: {
+        type: ControlType.String,
+        title: "Tools (JSON)",
+        displayTextArea: true,
+        defaultValue: "",
+        placeholder: '[{"name": "get_store_hours", "parameters": {...}}]',
+        description:
+            "Function declarations the AI may call. Handlers are passed in code via `toolHandlers`.",
+    },
+    maxToolSteps: {
+        type: ControlType.Number,
+        title: "Max Tool Steps",
+        defaultValue: DEFAULT_MAX_TOOL_STEPS,
+        min: 1,
+        max: 10,
+        step: 1,
+        displayStepper: true,
+        description: "Rounds of tool calls allowed before the AI must answer.",
+    },
+    responseFormat: {
+        type: ControlType.Enum,
+        title: "Response Format",
+        options: ["text", "json"],
+        optionTitles: ["Text", "Structured (JSON)"],
+        defaultValue: "text",
+        description:
+            "Structured replies are rendered as cards, a list or a table.",
+    },
+    responseSchema: {
+        type: ControlType.String,
+        title: "Response Schema",
+        displayTextArea: true,
+        defaultValue: "",
+        placeholder: '{"type": "array", "items": {...}}',
+        hidden: (props) => props.responseFormat !== "json",
+        description: "(Optional) JSON schema the reply must follow.",
+    },
+    structuredDisplay: {
+        type: ControlType.Enum,
+        title: "Display As",
+        options: ["auto", "cards", "list", "table"],
+        optionTitles: ["Auto", "Cards", "List", "Table"],
+        defaultValue: "auto",
+        hidden: (props) => props.responseFormat !== "json",
+        description: "Auto picks a table for flat rows, otherwise a list.",
+    },
+    safetySettings: {
+        type: ControlType.Object,
+        title: "Safety",
+        optional: true,
+        hidden: (props) => props.provider === "openai",
+        description: "How strictly Gemini blocks each kind of harmful content.",
+        controls: {
+            harassment: {
+                type: ControlType.Enum,
+                title: "Harassment",
+                options: SAFETY_THRESHOLD_OPTIONS,
+                optionTitles: SAFETY_THRESHOLD_TITLES,
+                defaultValue: "default",
+            },
+            hateSpeech: {
+                type: ControlType.Enum,
+                title: "Hate Speech",
+                options: SAFETY_THRESHOLD_OPTIONS,
+                optionTitles: SAFETY_THRESHOLD_TITLES,
+                defaultValue: "default",
+            },
+            sexuallyExplicit: {
+                type: ControlType.Enum,
+                title: "Sexual",
+                options: SAFETY_THRESHOLD_OPTIONS,
+                optionTitles: SAFETY_THRESHOLD_TITLES,
+                defaultValue: "default",
+            },
+            dangerousContent: {
+                type: ControlType.Enum,
+                title: "Dangerous",
+                options: SAFETY_THRESHOLD_OPTIONS,
+                optionTitles: SAFETY_THRESHOLD_TITLES,
+                defaultValue: "default",
+            },
+        },
+    },
+    enableGoogleSearch: {
+        type: ControlType.Boolean,
+        title: "Google Search",
+        defaultValue: false,
+        hidden: (props) => props.provider === "openai",
+        description:
+            "Ground answers in Google Search results and show cited sources.",
+    },
     placeholder: {
         type: ControlType.String,
         title: "Placeholder",
@@ -4970,6 +11647,111 @@ addPropertyControls(ChatOverlay, {
         defaultValue: "none",
         description: "Makes Gemini slower but smarter.",
     },
+    showThinking: {
+        type: ControlType.Boolean,
+        title: "Show Thinking",
+        defaultValue: true,
+        hidden: (props) =>
+            props.reasoningEffort === "none" && props.provider !== "openai",
+        description: "Stream thought summaries in a collapsible section.",
+    },
+    generationSettings: {
+        type: ControlType.Object,
+        title: "Advanced",
+        optional: true,
+        buttonTitle: "Generation",
+        description:
+            "Sampling and length settings. Off uses the model's defaults; 0 means default.",
+        controls: {
+            temperature: {
+                type: ControlType.Number,
+                title: "Temperature",
+                defaultValue: 1,
+                min: 0,
+                max: 2,
+                step: 0.05,
+            },
+            topP: {
+                type: ControlType.Number,
+                title: "Top P",
+                defaultValue: 0.95,
+                min: 0,
+                max: 1,
+                step: 0.05,
+            },
+            topK: {
+                type: ControlType.Number,
+                title: "Top K",
+                defaultValue: 0,
+                min: 0,
+                max: 500,
+                step: 1,
+            },
+            maxOutputTokens: {
+                type: ControlType.Number,
+                title: "Max Tokens",
+                defaultValue: 0,
+                min: 0,
+                max: 65536,
+                step: 64,
+            },
+            stopSequences: {
+                type: ControlType.Array,
+                title: "Stop At",
+                maxCount: 5,
+                control: { type: ControlType.String },
+                defaultValue: [],
+            },
+            presencePenalty: {
+                type: ControlType.Number,
+                title: "Presence Pen.",
+                defaultValue: 0,
+                min: -2,
+                max: 2,
+                step: 0.1,
+            },
+            frequencyPenalty: {
+                type: ControlType.Number,
+                title: "Frequency Pen.",
+                defaultValue: 0,
+                min: -2,
+                max: 2,
+                step: 0.1,
+            },
+            seed: {
+                type: ControlType.Number,
+                title: "Seed",
+                defaultValue: 0,
+                min: 0,
+                max: 2147483647,
+                step: 1,
+            },
+        },
+    },
+    dailyLimitMode: {
+        type: ControlType.Enum,
+        title: "Daily Limit",
+        options: ["messages", "tokens"],
+        optionTitles: ["Messages", "Tokens"],
+        defaultValue: "messages",
+        description: `Messages: ${DAILY_MESSAGE_LIMIT} per visitor per day. Tokens: a daily token budget.`,
+    },
+    dailyTokenLimit: {
+        type: ControlType.Number,
+        title: "Daily Tokens",
+        defaultValue: DEFAULT_DAILY_TOKEN_LIMIT,
+        min: 1000,
+        max: 10000000,
+        step: 1000,
+        hidden: (props) => props.dailyLimitMode !== "tokens",
+        description: "Prompt, output and thinking tokens per visitor per day.",
+    },
+    showUsageReadout: {
+        type: ControlType.Boolean,
+        title: "Usage Readout",
+        defaultValue: false,
+        description: "Show token totals above the chat. For testing only.",
+    },
     allowImages: {
         type: ControlType.Boolean,
         title: "Image Upload",
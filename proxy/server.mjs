@@ -0,0 +1,239 @@
+// -----------------------------------------------------------------------------
+// Reference Gemini proxy for ChatOverlay's `proxyBaseUrl` mode
+// -----------------------------------------------------------------------------
+// Forwards REST, upload and Live (WebSocket) calls to the Gemini API and adds
+// the API key on the server, so the browser never sees it. No dependencies:
+//
+//   GEMINI_API_KEY=... node proxy/server.mjs
+//
+// Environment:
+//   GEMINI_API_KEY   API key added to every upstream call (required)
+//   UPSTREAM_URL     Gemini origin (default https://generativelanguage.googleapis.com)
+//   PORT             Port to listen on (default 8787)
+//   ALLOWED_ORIGINS  Comma-separated origins allowed to call the proxy. Requests
+//                    from other origins, or with no Origin header, are refused.
+//                    "*" allows any origin and then requires PROXY_TOKEN.
+//   PROXY_TOKEN      If set, callers must send it as the `x-proxy-token`
+//                    header (or query parameter for WebSockets)
+//
+// At least one of ALLOWED_ORIGINS and PROXY_TOKEN is required, so the proxy
+// never starts as an open relay for the key.
+// -----------------------------------------------------------------------------
+import http from "node:http"
+import https from "node:https"
+import net from "node:net"
+import tls from "node:tls"
+
+const API_KEY = process.env.GEMINI_API_KEY || ""
+const UPSTREAM = new URL(
+    process.env.UPSTREAM_URL || "https://generativelanguage.googleapis.com"
+)
+const PORT = Number(process.env.PORT || 8787)
+const ALLOWED_ORIGINS = (process.env.ALLOWED_ORIGINS || "")
+    .split(",")
+    .map((o) => o.trim())
+    .filter(Boolean)
+const ANY_ORIGIN = ALLOWED_ORIGINS.includes("*")
+const PROXY_TOKEN = process.env.PROXY_TOKEN || ""
+
+// Only the calls ChatOverlay makes are forwarded. Everything else on the API,
+// such as listing or deleting files and caches, is refused.
+const MODEL_ID = "[A-Za-z0-9._-]+"
+const ALLOWED_ROUTES = [
+    ["POST", new RegExp(`^/v1beta/models/${MODEL_ID}:streamGenerateContent$`)],
+    ["POST", new RegExp(`^/v1beta/models/${MODEL_ID}:generateContent$`)],
+    ["POST", new RegExp(`^/v1beta/models/${MODEL_ID}:countTokens$`)],
+    ["POST", /^\/v1beta\/cachedContents$/],
+    ["PATCH", /^\/v1beta\/cachedContents\/[A-Za-z0-9_-]+$/],
+    ["POST", /^\/upload\/v1beta\/files$/],
+]
+const LIVE_PATH =
+    "/ws/google.ai.generativelanguage.v1alpha.GenerativeService.BidiGenerateContent"
+
+// Never forwarded upstream: hop-by-hop headers and anything identifying the visitor
+const STRIPPED_REQUEST_HEADERS = new Set([
+    "host",
+    "origin",
+    "referer",
+    "cookie",
+    "connection",
+    "keep-alive",
+    "transfer-encoding",
+    "upgrade",
+    "x-proxy-token",
+    "x-goog-api-key",
+])
+
+if (!API_KEY) {
+    console.error("GEMINI_API_KEY is required.")
+    process.exit(1)
+}
+if ((!ALLOWED_ORIGINS.length || ANY_ORIGIN) && !PROXY_TOKEN) {
+    console.error(
+        "Set ALLOWED_ORIGINS to your site's origins, or PROXY_TOKEN, so the proxy doesn't spend the key for anyone."
+    )
+    process.exit(1)
+}
+
+/**
+ * Returns the value for `Access-Control-Allow-Origin`, or "" when the caller's
+ * origin isn't allowed. With an explicit origin list, a request without an
+ * Origin header is refused too.
+ */
+function resolveCorsOrigin(origin) {
+    if (ANY_ORIGIN) return origin || "*"
+    return origin && ALLOWED_ORIGINS.includes(origin) ? origin : ""
+}
+
+function isAllowedRoute(method, pathname) {
+    return ALLOWED_ROUTES.some(
+        ([allowedMethod, pattern]) => method === allowedMethod && pattern.test(pathname)
+    )
+}
+
+function isAuthorized(req, url) {
+    if (!PROXY_TOKEN) return true
+    const token = req.headers["x-proxy-token"] || url.searchParams.get("x-proxy-token")
+    return token === PROXY_TOKEN
+}
+
+/**
+ * Rebuilds the incoming URL against the upstream origin, dropping any client
+ * supplied key and proxy token.
+ */
+function buildUpstreamUrl(url) {
+    const upstreamUrl = new URL(url.pathname, UPSTREAM)
+    for (const [name, value] of url.searchParams) {
+        if (name === "key" || name === "x-proxy-token") continue
+        upstreamUrl.searchParams.append(name, value)
+    }
+    return upstreamUrl
+}
+
+function forwardedHeaders(headers) {
+    const result = {}
+    for (const [name, value] of Object.entries(headers)) {
+        if (!STRIPPED_REQUEST_HEADERS.has(name)) result[name] = value
+    }
+    return result
+}
+
+function sendError(res, status, message, corsOrigin) {
+    res.writeHead(status, {
+        "Content-Type": "application/json",
+        ...(corsOrigin ? { "Access-Control-Allow-Origin": corsOrigin } : {}),
+    })
+    res.end(JSON.stringify({ error: { code: status, message } }))
+}
+
+const server = http.createServer((req, res) => {
+    const url = new URL(req.url || "/", "http://localhost")
+    const corsOrigin = resolveCorsOrigin(req.headers.origin)
+
+    if (req.method === "OPTIONS") {
+        res.writeHead(corsOrigin ? 204 : 403, {
+            "Access-Control-Allow-Origin": corsOrigin,
+            "Access-Control-Allow-Methods": "POST, PATCH, OPTIONS",
+            "Access-Control-Allow-Headers":
+                req.headers["access-control-request-headers"] || "Content-Type",
+            "Access-Control-Max-Age": "600",
+            Vary: "Origin",
+        })
+        res.end()
+        return
+    }
+    if (!corsOrigin) {
+        sendError(res, 403, "Origin not allowed.", "")
+        return
+    }
+    if (!isAllowedRoute(req.method, url.pathname)) {
+        sendError(res, 404, "Not found.", corsOrigin)
+        return
+    }
+    if (!isAuthorized(req, url)) {
+        sendError(res, 401, "Missing or invalid proxy token.", corsOrigin)
+        return
+    }
+
+    const upstreamUrl = buildUpstreamUrl(url)
+    const transport = upstreamUrl.protocol === "https:" ? https : http
+    const upstreamReq = transport.request(
+        upstreamUrl,
+        {
+            method: req.method,
+            headers: {
+                ...forwardedHeaders(req.headers),
+                host: upstreamUrl.host,
+                "x-goog-api-key": API_KEY,
+            },
+        },
+        (upstreamRes) => {
+            const headers = { ...upstreamRes.headers }
+            delete headers["access-control-allow-origin"]
+            res.writeHead(upstreamRes.statusCode || 502, {
+                ...headers,
+                "Access-Control-Allow-Origin": corsOrigin,
+                Vary: "Origin",
+            })
+            // Piping keeps SSE responses streaming chunk by chunk
+            upstreamRes.pipe(res)
+        }
+    )
+    upstreamReq.on("error", (err) => {
+        console.error("Upstream request failed", err.message)
+        if (!res.headersSent) sendError(res, 502, "Upstream unavailable.", corsOrigin)
+        else res.destroy()
+    })
+    req.pipe(upstreamReq)
+})
+
+// WebSocket (Live API): replay the handshake upstream with the key attached,
+// then splice the two sockets together. Frames are never inspected.
+server.on("upgrade", (req, socket, head) => {
+    const url = new URL(req.url || "/", "http://localhost")
+    const corsOrigin = resolveCorsOrigin(req.headers.origin)
+    if (url.pathname !== LIVE_PATH || !corsOrigin || !isAuthorized(req, url)) {
+        socket.end("HTTP/1.1 403 Forbidden\r\n\r\n")
+        return
+    }
+
+    const upstreamUrl = buildUpstreamUrl(url)
+    upstreamUrl.searchParams.set("key", API_KEY)
+    const secure = upstreamUrl.protocol === "https:" || upstreamUrl.protocol === "wss:"
+    const port = Number(upstreamUrl.port) || (secure ? 443 : 80)
+    const upstream = secure
+        ? tls.connect({ host: upstreamUrl.hostname, port, servername: upstreamUrl.hostname })
+        : net.connect({ host: upstreamUrl.hostname, port })
+
+    upstream.once(secure ? "secureConnect" : "connect", () => {
+        const lines = [
+            `GET ${upstreamUrl.pathname}${upstreamUrl.search} HTTP/1.1`,
+            `Host: ${upstreamUrl.host}`,
+            "Upgrade: websocket",
+            "Connection: Upgrade",
+        ]
+        for (const [name, value] of Object.entries(req.headers)) {
+            if (name.startsWith("sec-websocket-")) lines.push(`${name}: ${value}`)
+        }
+        upstream.write(lines.join("\r\n") + "\r\n\r\n")
+        if (head && head.length) upstream.write(head)
+        upstream.pipe(socket)
+        socket.pipe(upstream)
+    })
+
+    const closeBoth = () => {
+        upstream.destroy()
+        socket.destroy()
+    }
+    upstream.on("error", (err) => {
+        console.error("Upstream WebSocket failed", err.message)
+        closeBoth()
+    })
+    socket.on("error", closeBoth)
+    upstream.on("close", closeBoth)
+    socket.on("close", closeBoth)
+})
+
+server.listen(PORT, () => {
+    console.log(`Gemini proxy listening on http://localhost:${PORT} -> ${UPSTREAM.origin}`)
+})
@@ -0,0 +1,176 @@
+// -----------------------------------------------------------------------------
+// Stub Gemini upstream for testing the reference proxy locally
+// -----------------------------------------------------------------------------
+// Answers the handful of endpoints ChatOverlay uses with canned data and
+// rejects any call that arrives without an API key, so you can check that the
+// proxy adds it:
+//
+//   node proxy/stub-upstream.mjs
+//   GEMINI_API_KEY=test UPSTREAM_URL=http://localhost:8788 node proxy/server.mjs
+//
+// Environment:
+//   PORT  Port to listen on (default 8788)
+// -----------------------------------------------------------------------------
+import http from "node:http"
+import crypto from "node:crypto"
+
+const PORT = Number(process.env.PORT || 8788)
+const WEBSOCKET_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11"
+
+function hasApiKey(req, url) {
+    return !!(req.headers["x-goog-api-key"] || url.searchParams.get("key"))
+}
+
+function readJson(req) {
+    return new Promise((resolve) => {
+        let body = ""
+        req.on("data", (chunk) => (body += chunk))
+        req.on("end", () => {
+            try {
+                resolve(JSON.parse(body || "{}"))
+            } catch {
+                resolve({})
+            }
+        })
+    })
+}
+
+function lastUserText(payload) {
+    const contents = Array.isArray(payload.contents) ? payload.contents : []
+    const lastUser = [...contents].reverse().find((c) => c.role !== "model")
+    const text = (lastUser?.parts || [])
+        .map((p) => p.text || "")
+        .join("")
+        .trim()
+    return text || "your message"
+}
+
+function sendJson(res, status, data) {
+    res.writeHead(status, { "Content-Type": "application/json" })
+    res.end(JSON.stringify(data))
+}
+
+/** Encodes a single unmasked server-to-client text frame. */
+function encodeTextFrame(text) {
+    const payload = Buffer.from(text)
+    let header
+    if (payload.length < 126) {
+        header = Buffer.from([0x81, payload.length])
+    } else if (payload.length < 65536) {
+        header = Buffer.alloc(4)
+        header[0] = 0x81
+        header[1] = 126
+        header.writeUInt16BE(payload.length, 2)
+    } else {
+        header = Buffer.alloc(10)
+        header[0] = 0x81
+        header[1] = 127
+        header.writeBigUInt64BE(BigInt(payload.length), 2)
+    }
+    return Buffer.concat([header, payload])
+}
+
+const server = http.createServer(async (req, res) => {
+    const url = new URL(req.url || "/", "http://localhost")
+    if (!hasApiKey(req, url)) {
+        sendJson(res, 403, { error: { code: 403, message: "API key missing." } })
+        return
+    }
+
+    if (req.method === "POST" && url.pathname.endsWith(":streamGenerateContent")) {
+        const payload = await readJson(req)
+        const words = `Stub reply to: ${lastUserText(payload)}`.split(" ")
+        res.writeHead(200, { "Content-Type": "text/event-stream" })
+        words.forEach((word, i) => {
+            const chunk = {
+                candidates: [
+                    {
+                        content: { role: "model", parts: [{ text: (i ? " " : "") + word }] },
+                        ...(i === words.length - 1 ? { finishReason: "STOP" } : {}),
+                    },
+                ],
+            }
+            res.write(`data: ${JSON.stringify(chunk)}\r\n\r\n`)
+        })
+        res.end()
+        return
+    }
+
+    if (req.method === "POST" && url.pathname.endsWith(":countTokens")) {
+        const payload = await readJson(req)
+        const chars = JSON.stringify(payload.contents || []).length
+        sendJson(res, 200, { totalTokens: Math.ceil(chars / 4) })
+        return
+    }
+
+    if (req.method === "POST" && url.pathname.endsWith(":generateContent")) {
+        await readJson(req)
+        sendJson(res, 200, {
+            candidates: [
+                {
+                    content: {
+                        role: "model",
+                        parts: [{ text: '["Tell me more.", "Show an example.", "Thanks!"]' }],
+                    },
+                    finishReason: "STOP",
+                },
+            ],
+        })
+        return
+    }
+
+    if (req.method === "POST" && url.pathname.startsWith("/upload/v1beta/files")) {
+        req.resume()
+        req.on("end", () => {
+            sendJson(res, 200, {
+                file: {
+                    name: "files/stub-file",
+                    uri: `http://localhost:${PORT}/v1beta/files/stub-file`,
+                    mimeType: req.headers["content-type"] || "application/octet-stream",
+                    displayName: "stub-file",
+                },
+            })
+        })
+        return
+    }
+
+    sendJson(res, 404, { error: { code: 404, message: `No stub for ${url.pathname}` } })
+})
+
+// Minimal Live API stub: completes the handshake, then sends one transcribed
+// model turn. Incoming audio frames are ignored.
+server.on("upgrade", (req, socket) => {
+    const url = new URL(req.url || "/", "http://localhost")
+    const key = req.headers["sec-websocket-key"]
+    if (!hasApiKey(req, url) || !key) {
+        socket.end("HTTP/1.1 403 Forbidden\r\n\r\n")
+        return
+    }
+    const accept = crypto
+        .createHash("sha1")
+        .update(key + WEBSOCKET_GUID)
+        .digest("base64")
+    socket.write(
+        [
+            "HTTP/1.1 101 Switching Protocols",
+            "Upgrade: websocket",
+            "Connection: Upgrade",
+            `Sec-WebSocket-Accept: ${accept}`,
+        ].join("\r\n") + "\r\n\r\n"
+    )
+    socket.write(encodeTextFrame(JSON.stringify({ setupComplete: {} })))
+    socket.write(
+        encodeTextFrame(
+            JSON.stringify({
+                serverContent: { outputTranscription: { text: "Stub live session connected." } },
+            })
+        )
+    )
+    socket.write(encodeTextFrame(JSON.stringify({ serverContent: { turnComplete: true } })))
+    socket.on("data", () => {})
+    socket.on("error", () => socket.destroy())
+})
+
+server.listen(PORT, () => {
+    console.log(`Stub Gemini upstream listening on http://localhost:${PORT}`)
+})
@@ -0,0 +1,72 @@
+import assert from "node:assert/strict"
+import { test } from "node:test"
+import { loadGemini } from "./load-gemini.mjs"
+
+const { createGeminiContextCache, extendGeminiContextCache } = loadGemini([
+    "createGeminiContextCache",
+    "extendGeminiContextCache",
+])
+
+const endpoint = { apiKey: "test-key" }
+
+/** A transport that records its calls and answers like the cache API. */
+function recordingTransport() {
+    const calls = []
+    return {
+        calls,
+        fetch: async (url, init) => {
+            calls.push({ url, init })
+            init.signal?.throwIfAborted()
+            return new Response(
+                JSON.stringify({
+                    name: "cachedContents/abc",
+                    expireTime: "2030-01-01T00:00:00Z",
+                }),
+                { status: 200 }
+            )
+        },
+    }
+}
+
+test("cache calls go through the transport with the caller's signal", async () => {
+    const transport = recordingTransport()
+    const { signal } = new AbortController()
+    const created = await createGeminiContextCache(transport, endpoint, {
+        model: "gemini-2.5-flash",
+        systemInstruction: "Be brief.",
+        tools: [],
+        ttlSeconds: 600,
+        signal,
+    })
+    assert.equal(created.name, "cachedContents/abc")
+    await extendGeminiContextCache(
+        transport,
+        endpoint,
+        created.name,
+        600,
+        signal
+    )
+    assert.deepEqual(
+        transport.calls.map(({ init }) => [init.method, init.signal]),
+        [
+            ["POST", signal],
+            ["PATCH", signal],
+        ]
+    )
+    assert.match(transport.calls[1].url, /cachedContents\/abc\?updateMask=ttl/)
+})
+
+test("an aborted signal cancels cache creation", async () => {
+    const controller = new AbortController()
+    controller.abort()
+    await assert.rejects(
+        createGeminiContextCache(recordingTransport(), endpoint, {
+            model: "gemini-2.5-flash",
+            systemInstruction: "Be brief.",
+            tools: [],
+            ttlSeconds: 600,
+            signal: controller.signal,
+        }),
+        { name: "AbortError" }
+    )
+})
@@ -0,0 +1,173 @@
+import assert from "node:assert/strict"
+import { test } from "node:test"
+import { loadGemini } from "./load-gemini.mjs"
+
+const { parseConversationImport, buildConversationJson } = loadGemini([
+    "parseConversationImport",
+    "buildConversationJson",
+])
+
+const exported = (messages) =>
+    JSON.stringify({
+        format: "gemini-chat-transcript",
+        version: 1,
+        messages,
+        suggestions: ["Track my order", 42],
+    })
+
+test("an exported chat imports unchanged", () => {
+    const messages = [
+        { role: "user", content: "Where is my order?" },
+        {
+            role: "assistant",
+            content: "It shipped yesterday.",
+            toolCalls: [{ name: "lookupOrder", args: { id: "A1" }, step: 0 }],
+            grounding: {
+                sources: [{ uri: "https://example.com/track", title: "Track" }],
+                citations: [{ text: "shipped", sourceIndices: [0] }],
+            },
+            usage: { prompt: 12, output: 5, thinking: 0 },
+            model: "gemini-2.5-flash",
+            variants: [
+                { content: "It shipped." },
+                { content: "It shipped yesterday." },
+            ],
+            activeVariant: 1,
+        },
+    ]
+    const imported = parseConversationImport(
+        buildConversationJson(messages, ["Track it"], true)
+    )
+    assert.deepEqual(imported.messages, messages)
+    assert.deepEqual(imported.suggestions, ["Track it"])
+})
+
+test("raw HTML, unknown fields and unsafe URLs are dropped", () => {
+    const { messages, suggestions } = parseConversationImport(
+        exported([
+            {
+                role: "user",
+                content: [
+                    { type: "text", text: "hi" },
+                    {
+                        type: "image_url",
+                        image_url: { url: "javascript:alert(1)" },
+                    },
+                    { type: "html", html: "<img src=x onerror=alert(1)>" },
+                ],
+                dangerouslySetInnerHTML: { __html: "<script></script>" },
+            },
+            {
+                role: "assistant",
+                content: "Hello",
+                grounding: {
+                    searchEntryPointHtml: "<img src=x onerror=alert(1)>",
+                    sources: [
+                        { uri: "javascript:alert(1)", title: "Bad" },
+                        { uri: "https://example.com", title: "Good" },
+                    ],
+                    citations: [{ text: "Hello", sourceIndices: [1, 5] }],
+                },
+                error: { message: "<b>spoofed</b>" },
+            },
+        ])
+    )
+    assert.deepEqual(messages, [
+        { role: "user", content: [{ type: "text", text: "hi" }] },
+        {
+            role: "assistant",
+            content: "Hello",
+            grounding: {
+                sources: [
+                    { uri: "", title: "Bad" },
+                    { uri: "https://example.com", title: "Good" },
+                ],
+                citations: [{ text: "Hello", sourceIndices: [1] }],
+            },
+        },
+    ])
+    assert.deepEqual(suggestions, ["Track my order"])
+})
+
+test("malformed tool calls, variants and branches don't reach state", () => {
+    const { messages } = parseConversationImport(
+        exported([
+            {
+                role: "user",
+                content: "first",
+                branches: "not a list",
+                activeBranch: 0,
+            },
+            {
+                role: "assistant",
+                content: "reply",
+                toolCalls: [null, "lookup", { name: "lookup", args: "x" }],
+                variants: [{ content: "a" }, { content: 3 }],
+                activeVariant: 0,
+            },
+            {
+                role: "user",
+                content: "second",
+                branches: [{ content: "old", messages: [{ role: "robot" }] }],
+                activeBranch: 0,
+            },
+            {
+                role: "assistant",
+                content: "again",
+                variants: [{ content: "a" }],
+                activeVariant: 7,
+                toolCalls: { name: "lookup" },
+                usage: { prompt: "12" },
+            },
+        ])
+    )
+    assert.deepEqual(messages, [
+        { role: "user", content: "first" },
+        {
+            role: "assistant",
+            content: "reply",
+            toolCalls: [{ name: "lookup", args: {}, step: 0 }],
+        },
+        { role: "user", content: "second" },
+        { role: "assistant", content: "again" },
+    ])
+})
+
+test("valid branches are kept", () => {
+    const branch = {
+        content: "old question",
+        messages: [{ role: "assistant", content: "old answer" }],
+    }
+    const { messages } = parseConversationImport(
+        exported([
+            {
+                role: "user",
+                content: "new question",
+                branches: [branch, { content: "new question", messages: [] }],
+                activeBranch: 1,
+            },
+        ])
+    )
+    assert.deepEqual(messages[0].branches[0], branch)
+    assert.equal(messages[0].activeBranch, 1)
+})
+
+test("files without a valid message list are refused", () => {
+    for (const messages of [
+        "nope",
+        [{ role: "user", content: { text: "hi" } }],
+        [{ role: "robot", content: "hi" }],
+        [{ role: "assistant", content: "no question" }],
+        [null],
+    ]) {
+        assert.throws(() => parseConversationImport(exported(messages)), {
+            message: "That file has no messages to import.",
+        })
+    }
+    assert.throws(() => parseConversationImport("{"), {
+        message: "That file isn't valid JSON.",
+    })
+    assert.throws(() => parseConversationImport("null"), {
+        message: "That file isn't an exported chat.",
+    })
+})
@@ -0,0 +1,132 @@
+import "fake-indexeddb/auto"
+import assert from "node:assert/strict"
+import { test } from "node:test"
+import { loadGemini } from "./load-gemini.mjs"
+
+const {
+    migrateStoredConversation,
+    deleteExpiredConversations,
+    saveConversation,
+    openConversationDb,
+    CONVERSATION_SCHEMA_VERSION,
+    CONVERSATION_STORE,
+} = loadGemini([
+    "migrateStoredConversation",
+    "deleteExpiredConversations",
+    "saveConversation",
+    "openConversationDb",
+    "CONVERSATION_SCHEMA_VERSION",
+    "CONVERSATION_STORE",
+])
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const messages = [{ role: "user", content: "Do you ship to Norway?" }]
+
+async function putRecords(records) {
+    const db = await openConversationDb()
+    const tx = db.transaction(CONVERSATION_STORE, "readwrite")
+    records.forEach((record) => tx.objectStore(CONVERSATION_STORE).put(record))
+    await new Promise((resolve) => (tx.oncomplete = resolve))
+}
+
+async function getRecord(id) {
+    const db = await openConversationDb()
+    const request = db
+        .transaction(CONVERSATION_STORE)
+        .objectStore(CONVERSATION_STORE)
+        .get(id)
+    return new Promise(
+        (resolve) => (request.onsuccess = () => resolve(request.result))
+    )
+}
+
+test("version 1 records gain createdAt from their last update", () => {
+    const migrated = migrateStoredConversation({
+        id: "a",
+        schemaVersion: 1,
+        updatedAt: 1700000000000,
+        messages,
+        suggestions: ["Yes"],
+    })
+    assert.equal(migrated.schemaVersion, CONVERSATION_SCHEMA_VERSION)
+    assert.equal(migrated.createdAt, 1700000000000)
+    assert.deepEqual(migrated.suggestions, ["Yes"])
+})
+
+test("records from an unknown older or a newer version don't migrate", () => {
+    assert.equal(
+        migrateStoredConversation({ id: "a", schemaVersion: 0, messages }),
+        null
+    )
+    assert.equal(
+        migrateStoredConversation({
+            id: "a",
+            schemaVersion: CONVERSATION_SCHEMA_VERSION + 1,
+            messages,
+        }),
+        null
+    )
+})
+
+test("the retention sweep writes migrations back and leaves newer records alone", async () => {
+    const now = Date.now()
+    await putRecords([
+        {
+            id: "v1",
+            schemaVersion: 1,
+            updatedAt: now,
+            messages,
+            suggestions: [],
+        },
+        {
+            id: "newer",
+            schemaVersion: CONVERSATION_SCHEMA_VERSION + 1,
+            updatedAt: now - 365 * DAY_MS,
+            messages,
+        },
+        {
+            id: "expired",
+            schemaVersion: CONVERSATION_SCHEMA_VERSION,
+            createdAt: now - 90 * DAY_MS,
+            updatedAt: now - 60 * DAY_MS,
+            messages,
+            suggestions: [],
+        },
+        { id: "unknown", schemaVersion: 0, updatedAt: now, messages },
+    ])
+
+    await deleteExpiredConversations(30)
+
+    const v1 = await getRecord("v1")
+    assert.equal(v1.schemaVersion, CONVERSATION_SCHEMA_VERSION)
+    assert.equal(v1.createdAt, now)
+    assert.equal(
+        (await getRecord("newer")).schemaVersion,
+        CONVERSATION_SCHEMA_VERSION + 1
+    )
+    assert.equal(await getRecord("expired"), undefined)
+    assert.equal(await getRecord("unknown"), undefined)
+})
+
+test("saving over a newer record is refused and leaves it intact", async () => {
+    const newer = {
+        id: "newer-save",
+        schemaVersion: CONVERSATION_SCHEMA_VERSION + 1,
+        updatedAt: 1,
+        messages: [{ role: "user", content: "from the future" }],
+    }
+    await putRecords([newer])
+    assert.equal(await saveConversation("newer-save", messages, []), null)
+    assert.deepEqual(await getRecord("newer-save"), newer)
+})
+
+test("saving keeps when a conversation started", async () => {
+    const first = await saveConversation("kept", messages, [])
+    const second = await saveConversation(
+        "kept",
+        [...messages, { role: "assistant", content: "We do." }],
+        []
+    )
+    assert.equal(second.createdAt, first.createdAt)
+    assert.ok(second.updatedAt >= first.updatedAt)
+})
@@ -0,0 +1,68 @@
+import assert from "node:assert/strict"
+import { test } from "node:test"
+import { loadGemini } from "./load-gemini.mjs"
+
+const { fetchWithRetry } = loadGemini(["fetchWithRetry"])
+
+const buildRequest = async (model) => ({ url: model, headers: {}, body: {} })
+
+test("network failures are retried", async () => {
+    const retries = []
+    let calls = 0
+    const { response, model } = await fetchWithRetry(
+        buildRequest,
+        async () => {
+            calls++
+            if (calls === 1) throw new TypeError("Failed to fetch")
+            return new Response("{}", { status: 200 })
+        },
+        ["primary"],
+        {
+            maxRetries: 2,
+            signal: new AbortController().signal,
+            onRetry: (info) => retries.push(info),
+        }
+    )
+    assert.equal(response.status, 200)
+    assert.equal(model, "primary")
+    assert.equal(calls, 2)
+    assert.deepEqual(retries, [
+        { model: "primary", attempt: 1, fallback: false },
+    ])
+})
+
+test("a network failure that outlasts the retries is thrown", async () => {
+    let calls = 0
+    await assert.rejects(
+        fetchWithRetry(
+            buildRequest,
+            async () => {
+                calls++
+                throw new TypeError("Failed to fetch")
+            },
+            ["primary", "fallback"],
+            { maxRetries: 0, signal: new AbortController().signal }
+        ),
+        TypeError
+    )
+    assert.equal(calls, 1)
+})
+
+test("an abort is never retried", async () => {
+    const controller = new AbortController()
+    let calls = 0
+    await assert.rejects(
+        fetchWithRetry(
+            buildRequest,
+            async () => {
+                calls++
+                controller.abort()
+                throw new DOMException("Aborted", "AbortError")
+            },
+            ["primary"],
+            { maxRetries: 3, signal: controller.signal }
+        ),
+        { name: "AbortError" }
+    )
+    assert.equal(calls, 1)
+})
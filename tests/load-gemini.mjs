@@ -0,0 +1,103 @@
+// -----------------------------------------------------------------------------
+// Test loader for gemini.tsx
+// -----------------------------------------------------------------------------
+// Transpiles the component with TypeScript and evaluates it as CommonJS with
+// small stand-ins for react, react-dom, framer and framer-motion, so tests can
+// call its module-level helpers without a browser or a Framer project.
+//
+//   const { createSseParser } = loadGemini(["createSseParser"])
+// -----------------------------------------------------------------------------
+import fs from "node:fs"
+import Module from "node:module"
+import path from "node:path"
+import { fileURLToPath } from "node:url"
+import ts from "typescript"
+
+const SOURCE_PATH = path.join(
+    path.dirname(fileURLToPath(import.meta.url)),
+    "..",
+    "gemini.tsx"
+)
+
+// Elements are plain objects shaped like React's: `{ type, key, props }`
+const Fragment = Symbol.for("react.fragment")
+const createElement = (type, props, ...children) => {
+    const { key = null, ...rest } = props || {}
+    if (children.length) {
+        rest.children = children.length === 1 ? children[0] : children
+    }
+    return { $$typeof: Symbol.for("react.element"), type, key, props: rest }
+}
+const react = {
+    createElement,
+    Fragment,
+    isValidElement: (value) =>
+        !!value && value.$$typeof === Symbol.for("react.element"),
+    cloneElement: (element, props, ...children) => ({
+        ...element,
+        props: {
+            ...element.props,
+            ...props,
+            ...(children.length
+                ? { children: children.length === 1 ? children[0] : children }
+                : {}),
+        },
+    }),
+    useState: (initial) => [
+        typeof initial === "function" ? initial() : initial,
+        () => {},
+    ],
+    useRef: (current = null) => ({ current }),
+    useEffect: () => {},
+    useCallback: (fn) => fn,
+    useMemo: (fn) => fn(),
+    startTransition: (fn) => fn(),
+}
+
+const stubs = {
+    react,
+    "react-dom": { flushSync: (fn) => fn() },
+    framer: {
+        addPropertyControls: () => {},
+        ControlType: new Proxy({}, { get: (_, name) => name }),
+        RenderTarget: {
+            current: () => "preview",
+            canvas: "canvas",
+            preview: "preview",
+            thumbnail: "thumbnail",
+        },
+    },
+    "framer-motion": {
+        motion: new Proxy({}, { get: (_, name) => name }),
+        AnimatePresence: "AnimatePresence",
+        useDragControls: () => ({}),
+        useScroll: () => ({}),
+        useMotionValueEvent: () => {},
+    },
+}
+
+/** Evaluates gemini.tsx and returns the named module-level declarations. */
+export function loadGemini(names) {
+    const source =
+        fs.readFileSync(SOURCE_PATH, "utf8") +
+        `\nmodule.exports.__testExports = { ${names.join(", ")} }\n`
+    const { outputText } = ts.transpileModule(source, {
+        fileName: "gemini.tsx",
+        compilerOptions: {
+            jsx: ts.JsxEmit.React,
+            module: ts.ModuleKind.CommonJS,
+            target: ts.ScriptTarget.ES2022,
+            esModuleInterop: true,
+        },
+    })
+    const compiled = new Module(SOURCE_PATH)
+    compiled.filename = SOURCE_PATH
+    compiled.require = (id) => {
+        if (!(id in stubs)) throw new Error(`Unexpected import: ${id}`)
+        return stubs[id]
+    }
+    // The classic JSX transform calls React.createElement from module scope
+    globalThis.React = react
+    compiled._compile(outputText, SOURCE_PATH)
+    return compiled.exports.__testExports
+}
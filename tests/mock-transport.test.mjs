@@ -0,0 +1,79 @@
+import assert from "node:assert/strict"
+import { test } from "node:test"
+import { loadGemini } from "./load-gemini.mjs"
+
+const { createMockTransport, createGeminiProvider, estimateMessageTokens } =
+    loadGemini([
+        "createMockTransport",
+        "createGeminiProvider",
+        "estimateMessageTokens",
+    ])
+
+const transport = createMockTransport({ scenario: "echo", script: [], seed: 1 })
+const provider = createGeminiProvider({ apiKey: "mock" })
+
+test("the mock answers countTokens like the local estimate", async () => {
+    const history = [
+        {
+            role: "user",
+            content: "How long is the warranty on the blue kettle?",
+        },
+        { role: "assistant", content: "Two years from the date of purchase." },
+    ]
+    const request = await provider.buildCountTokensRequest({
+        model: "gemini-2.5-flash",
+        history,
+    })
+    const response = await transport.fetch(request.url, {
+        method: "POST",
+        headers: request.headers,
+        body: JSON.stringify(request.body),
+    })
+    assert.equal(response.status, 200)
+    assert.equal(
+        provider.parseTokenCount(await response.json()),
+        history.reduce(
+            (sum, message) => sum + estimateMessageTokens(message),
+            0
+        )
+    )
+})
+
+test("the mock streams an echo of the last user turn", async () => {
+    const request = await provider.buildRequest(
+        {
+            model: "gemini-2.5-flash",
+            history: [{ role: "user", content: "hello" }],
+        },
+        { stream: true }
+    )
+    const response = await transport.fetch(request.url, {
+        method: "POST",
+        headers: request.headers,
+        body: JSON.stringify(request.body),
+    })
+    const parser = provider.createStreamParser()
+    const events = parser.push(await response.text())
+    events.push(...parser.flush())
+    assert.equal(
+        events
+            .filter((event) => event.type === "text")
+            .map((event) => event.text)
+            .join(""),
+        "You said: hello"
+    )
+})
+
+test("mock uploads read the file type from any header shape", async () => {
+    for (const headers of [
+        { "Content-Type": "image/png" },
+        new Headers({ "content-type": "image/png" }),
+        [["Content-Type", "image/png"]],
+    ]) {
+        const response = await transport.fetch(
+            "https://mock.invalid/upload/v1beta/files",
+            { method: "POST", headers, body: "png bytes" }
+        )
+        assert.equal((await response.json()).file.mimeType, "image/png")
+    }
+})
@@ -0,0 +1,80 @@
+import assert from "node:assert/strict"
+import { test } from "node:test"
+import { loadGemini } from "./load-gemini.mjs"
+
+const { safeLinkHref, applyInlineFormatting, renderStructuredHeading } =
+    loadGemini([
+        "safeLinkHref",
+        "applyInlineFormatting",
+        "renderStructuredHeading",
+    ])
+
+/** Every href in a rendered element tree. */
+function hrefs(node) {
+    if (Array.isArray(node)) return node.flatMap(hrefs)
+    if (!node || typeof node !== "object") return []
+    return [
+        ...(node.props.href !== undefined ? [node.props.href] : []),
+        ...hrefs(node.props.children),
+    ]
+}
+
+test("web, email and phone links are allowed", () => {
+    assert.equal(safeLinkHref("https://example.com/a"), "https://example.com/a")
+    assert.equal(safeLinkHref("http://example.com"), "http://example.com")
+    assert.equal(safeLinkHref("mailto:hi@example.com"), "mailto:hi@example.com")
+    assert.equal(safeLinkHref("tel:+4712345678"), "tel:+4712345678")
+    assert.equal(
+        safeLinkHref("example.com/pricing"),
+        "https://example.com/pricing"
+    )
+})
+
+test("other schemes are refused, however they're spelled", () => {
+    for (const url of [
+        "javascript:alert(1)",
+        "JavaScript:alert(1)",
+        " javascript:alert(1)",
+        "java\tscript:alert(1)",
+        "data:text/html,<script>alert(1)</script>",
+        "vbscript:msgbox(1)",
+        "/relative/path",
+        "",
+        undefined,
+        { href: "https://example.com" },
+    ]) {
+        assert.equal(safeLinkHref(url), undefined, JSON.stringify(url))
+    }
+})
+
+test("markdown and HTML links with unsafe schemes render as text", () => {
+    const parts = applyInlineFormatting(
+        '[click](javascript:alert(1)) <a href="javascript:alert(2)">here</a> ' +
+            '[ok](https://example.com) <a href="mailto:a@example.com">mail</a>',
+        "t",
+        {}
+    )
+    assert.deepEqual(hrefs(parts), [
+        "https://example.com",
+        "mailto:a@example.com",
+    ])
+    assert.ok(parts.includes("click"))
+    assert.ok(parts.includes("here"))
+})
+
+test("structured items only link safe URLs", () => {
+    const styles = { linkStyle: {} }
+    const unsafe = renderStructuredHeading(
+        { title: "Pwn", url: "javascript:alert(1)" },
+        "s",
+        styles
+    )
+    assert.deepEqual(hrefs(unsafe.heading), [])
+    assert.equal(unsafe.heading.props.children, "Pwn")
+    const safe = renderStructuredHeading(
+        { title: "Docs", link: "docs.example.com" },
+        "s",
+        styles
+    )
+    assert.deepEqual(hrefs(safe.heading), ["https://docs.example.com"])
+})
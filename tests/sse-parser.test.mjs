@@ -0,0 +1,138 @@
+import assert from "node:assert/strict"
+import { test } from "node:test"
+import { loadGemini } from "./load-gemini.mjs"
+
+const { createSseParser, createJsonStreamParser, parseGeminiStreamPayload } =
+    loadGemini([
+        "createSseParser",
+        "createJsonStreamParser",
+        "parseGeminiStreamPayload",
+    ])
+
+/** Feeds `chunks` of bytes through a streaming decoder, the way the client reads a body. */
+function parseByteChunks(parser, chunks) {
+    const decoder = new TextDecoder()
+    const out = []
+    for (const chunk of chunks) {
+        out.push(...parser.push(decoder.decode(chunk, { stream: true })))
+    }
+    out.push(...parser.push(decoder.decode()), ...parser.flush())
+    return out
+}
+
+/** Every way to cut `bytes` into two pieces, plus one byte at a time. */
+function* splits(bytes) {
+    for (let i = 0; i <= bytes.length; i++) {
+        yield [bytes.subarray(0, i), bytes.subarray(i)]
+    }
+    yield Array.from(bytes, (_, i) => bytes.subarray(i, i + 1))
+}
+
+// CRLF, LF and lone CR line endings, 2-, 3- and 4-byte UTF-8 characters, a
+// comment, a multi-line event and a last event with no blank line after it
+const STREAM = Buffer.from(
+    "\uFEFFdata: café\r\n\r\n" +
+        ": keep-alive\r\n" +
+        "event: message\n" +
+        "data: 你好\n" +
+        "data:\u{1F600} two lines\n\n" +
+        "id: 7\r" +
+        "data: cr only\r\r" +
+        "data: no trailing blank line"
+)
+const EXPECTED = [
+    "café",
+    "你好\n\u{1F600} two lines",
+    "cr only",
+    "no trailing blank line",
+]
+
+test("SSE parser gives the same events however the bytes are split", () => {
+    for (const chunks of splits(STREAM)) {
+        assert.deepEqual(parseByteChunks(createSseParser(), chunks), EXPECTED)
+    }
+})
+
+test("SSE parser handles every three-way split", () => {
+    for (let i = 0; i <= STREAM.length; i++) {
+        for (let j = i; j <= STREAM.length; j++) {
+            const chunks = [
+                STREAM.subarray(0, i),
+                STREAM.subarray(i, j),
+                STREAM.subarray(j),
+            ]
+            assert.deepEqual(
+                parseByteChunks(createSseParser(), chunks),
+                EXPECTED,
+                `split at ${i} and ${j}`
+            )
+        }
+    }
+})
+
+test("a CRLF split between chunks ends one line, not two", () => {
+    const parser = createSseParser()
+    assert.deepEqual(
+        [
+            ...parser.push("data: a\r"),
+            ...parser.push("\ndata: b\r"),
+            ...parser.push("\n\r"),
+            ...parser.push("\n"),
+        ],
+        ["a\nb"]
+    )
+    assert.deepEqual(parser.flush(), [])
+})
+
+test("Gemini stream events survive any split", () => {
+    const chunk = (candidates) =>
+        `data: ${JSON.stringify({ candidates })}\r\n\r\n`
+    const body = Buffer.from(
+        chunk([
+            { content: { parts: [{ text: "Héllo " }, { text: "wörld" }] } },
+            { index: 1, content: { parts: [{ text: "alt" }] } },
+        ]) +
+            chunk([
+                {
+                    content: {
+                        parts: [{ functionCall: { name: "lookup", args: {} } }],
+                    },
+                },
+            ]) +
+            `data: ${JSON.stringify({
+                candidates: [
+                    {
+                        content: { parts: [{ text: "\u{1F44B}" }] },
+                        finishReason: "STOP",
+                    },
+                ],
+            })}`
+    )
+    for (const chunks of splits(body)) {
+        const events = parseByteChunks(
+            createJsonStreamParser(parseGeminiStreamPayload),
+            chunks
+        )
+        assert.deepEqual(
+            events
+                .filter(
+                    (event) =>
+                        event.type === "text" || event.type === "toolCall"
+                )
+                .map((event) =>
+                    [
+                        event.type,
+                        event.candidateIndex,
+                        event.text ?? event.call.name,
+                    ].join(":")
+                ),
+            [
+                "text:0:Héllo ",
+                "text:0:wörld",
+                "text:1:alt",
+                "toolCall:0:lookup",
+                "text:0:\u{1F44B}",
+            ]
+        )
+    }
+})